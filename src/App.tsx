@@ -15,6 +15,12 @@ import NotFound from "./pages/NotFound";
 import AuthorPage from "./pages/AuthorPage";
 import ProfileSettings from "./pages/ProfileSettings";
 import ResetPassword from "./pages/ResetPassword";
+import Moderation from "./pages/Moderation";
+import AdminUsage from "./pages/AdminUsage";
+import BlogImport from "./pages/BlogImport";
+import ReadingList from "./pages/ReadingList";
+import Search from "./pages/Search";
+import TopicPage from "./pages/TopicPage";
 
 const queryClient = new QueryClient();
 
@@ -30,8 +36,11 @@ const App = () => (
               <Route path="/" element={<Index />} />
               <Route path="/auth" element={<Auth />} />
               <Route path="/reset-password" element={<ResetPassword />} />
-              <Route path="/post/:id" element={<Post />} />
+              <Route path="/post/:slug" element={<Post />} />
               <Route path="/author/:id" element={<AuthorPage />} />
+              <Route path="/search" element={<Search />} />
+              <Route path="/tag/:tag" element={<TopicPage kind="tag" />} />
+              <Route path="/category/:category" element={<TopicPage kind="category" />} />
               <Route
                 path="/dashboard"
                 element={
@@ -56,6 +65,22 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/dashboard/import"
+                element={
+                  <ProtectedRoute>
+                    <BlogImport />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/dashboard/import/:jobId"
+                element={
+                  <ProtectedRoute>
+                    <BlogImport />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/settings"
                 element={
@@ -64,6 +89,30 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/reading-list"
+                element={
+                  <ProtectedRoute>
+                    <ReadingList />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/moderation"
+                element={
+                  <ProtectedRoute requiredRole="moderator">
+                    <Moderation />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/usage"
+                element={
+                  <ProtectedRoute requiredRole="admin">
+                    <AdminUsage />
+                  </ProtectedRoute>
+                }
+              />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -1,6 +1,8 @@
 import { Link } from 'react-router-dom';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Globe2, Twitter, Instagram, Music2 } from 'lucide-react';
+import { FollowButton, FollowCounts } from '@/components/FollowButton';
+import { useFollowCounts } from '@/hooks/use-follows';
 
 interface AuthorCardProps {
   authorId: string;
@@ -26,6 +28,8 @@ export function AuthorCard({
   compact = false,
 }: AuthorCardProps) {
   const hasSocialLinks = websiteUrl || twitterHandle || instagramHandle || tiktokHandle;
+  // Counts only show on the full card, so the compact chip skips the query
+  const { data: followCounts } = useFollowCounts(compact ? undefined : authorId);
 
   if (compact) {
     return (
@@ -85,7 +89,15 @@ export function AuthorCard({
               {bio}
             </p>
           )}
+          {followCounts && (
+            <FollowCounts
+              followers={followCounts.followers}
+              following={followCounts.following}
+              className="text-[0.65rem] text-muted-foreground"
+            />
+          )}
         </div>
+        <FollowButton authorId={authorId} className="shrink-0" />
       </div>
 
       {hasSocialLinks && (
@@ -0,0 +1,52 @@
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Bookmark } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBookmarks } from '@/hooks/use-bookmarks';
+import { cn } from '@/lib/utils';
+
+interface BookmarkButtonProps {
+  postId: string;
+  /** Show a "Save" label next to the icon */
+  showLabel?: boolean;
+  className?: string;
+}
+
+export function BookmarkButton({ postId, showLabel, className }: BookmarkButtonProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { isBookmarked, toggleBookmark } = useBookmarks();
+  const bookmarked = isBookmarked(postId);
+
+  // Cards wrap the whole post in a link, so the click must not fall through to it
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!user) {
+      navigate(`/auth?redirect=${encodeURIComponent(location.pathname + location.search)}`);
+      return;
+    }
+    toggleBookmark(postId);
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      onClick={handleClick}
+      aria-pressed={bookmarked}
+      aria-label={bookmarked ? 'Remove from reading list' : 'Save to reading list'}
+      className={cn(
+        'gap-2 text-muted-foreground hover:text-foreground',
+        bookmarked && 'text-primary hover:text-primary',
+        !showLabel && 'h-8 w-8 p-0',
+        className,
+      )}
+    >
+      <Bookmark className={cn('h-4 w-4', bookmarked && 'fill-current')} />
+      {showLabel && <span className="hidden sm:inline">{bookmarked ? 'Saved' : 'Save'}</span>}
+    </Button>
+  );
+}
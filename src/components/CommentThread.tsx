@@ -0,0 +1,466 @@
+import { useMemo, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import ReactMarkdown from 'react-markdown';
+import { formatDistanceToNow } from 'date-fns';
+import { EyeOff, Flag, MessageCircle, Pencil, Reply, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { ReportDialog } from '@/components/ReportDialog';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface Comment {
+  id: string;
+  author_id: string;
+  parent_id: string | null;
+  body: string;
+  is_hidden: boolean;
+  created_at: string;
+  updated_at: string;
+  profiles: {
+    display_name: string;
+    avatar_url: string | null;
+  } | null;
+}
+
+interface CommentNode extends Comment {
+  replies: CommentNode[];
+}
+
+interface CommentThreadProps {
+  postId: string;
+  postAuthorId: string;
+}
+
+const MAX_COMMENT_LENGTH = 5000;
+// Deeper replies keep threading but stop indenting so they stay readable on mobile
+const MAX_INDENT_DEPTH = 3;
+
+// Comments only get inline formatting: no headings, images or raw HTML
+const COMMENT_ELEMENTS = ['p', 'strong', 'em', 'del', 'code', 'a', 'br', 'ul', 'ol', 'li', 'blockquote'];
+
+function buildTree(comments: Comment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  comments.forEach((comment) => nodes.set(comment.id, { ...comment, replies: [] }));
+
+  const roots: CommentNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) parent.replies.push(node);
+    else roots.push(node);
+  });
+  return roots;
+}
+
+function CommentBody({ body }: { body: string }) {
+  return (
+    <div className="text-sm leading-relaxed text-foreground [&_blockquote]:border-l-2 [&_blockquote]:border-border [&_blockquote]:pl-3 [&_blockquote]:text-muted-foreground [&_code]:rounded [&_code]:bg-muted [&_code]:px-1 [&_code]:py-0.5 [&_code]:text-[0.8em] [&_ol]:list-decimal [&_ol]:pl-5 [&_p]:mb-2 [&_p:last-child]:mb-0 [&_ul]:list-disc [&_ul]:pl-5">
+      <ReactMarkdown
+        allowedElements={COMMENT_ELEMENTS}
+        unwrapDisallowed
+        components={{
+          a: ({ href, children }) => (
+            <a href={href} target="_blank" rel="nofollow noreferrer" className="text-primary underline underline-offset-2">
+              {children}
+            </a>
+          ),
+        }}
+      >
+        {body}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+interface CommentFormProps {
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel: string;
+  isPending: boolean;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => Promise<unknown>;
+  onCancel?: () => void;
+}
+
+function CommentForm({ initialValue = '', placeholder, submitLabel, isPending, autoFocus, onSubmit, onCancel }: CommentFormProps) {
+  const [body, setBody] = useState(initialValue);
+  const trimmed = body.trim();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed) return;
+    try {
+      await onSubmit(trimmed);
+      setBody('');
+    } catch {
+      // The mutation already surfaced the error; keep the text so nothing is lost
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={3}
+        maxLength={MAX_COMMENT_LENGTH}
+        autoFocus={autoFocus}
+        className="resize-none text-sm leading-relaxed"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-[0.7rem] text-muted-foreground">
+          **bold**, *italic*, `code` and [links](https://…) work.
+        </p>
+        <div className="flex items-center gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isPending}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" size="sm" className="rounded-full px-4" disabled={isPending || !trimmed}>
+            {isPending ? 'Posting…' : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+interface CommentItemProps {
+  comment: CommentNode;
+  depth: number;
+  currentUserId: string | null;
+  postAuthorId: string;
+  onReply: (parentId: string, body: string) => Promise<unknown>;
+  onEdit: (commentId: string, body: string) => Promise<unknown>;
+  onDelete: (commentId: string) => void;
+  isReplying: boolean;
+  isEditing: boolean;
+}
+
+function CommentItem({
+  comment,
+  depth,
+  currentUserId,
+  postAuthorId,
+  onReply,
+  onEdit,
+  onDelete,
+  isReplying,
+  isEditing,
+}: CommentItemProps) {
+  const [mode, setMode] = useState<'view' | 'reply' | 'edit'>('view');
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const displayName = comment.profiles?.display_name ?? 'Anonymous';
+  const isOwn = currentUserId === comment.author_id;
+  const canDelete = isOwn || currentUserId === postAuthorId;
+  const wasEdited = new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+
+  return (
+    <li className="space-y-3">
+      <div className="flex items-start gap-3">
+        <Link to={`/author/${comment.author_id}`} className="shrink-0">
+          <Avatar className="h-8 w-8 border border-border/60">
+            {comment.profiles?.avatar_url ? (
+              <AvatarImage src={comment.profiles.avatar_url} alt={displayName} />
+            ) : (
+              <AvatarFallback className="bg-muted text-xs font-medium">{displayName.charAt(0)}</AvatarFallback>
+            )}
+          </Avatar>
+        </Link>
+        <div className="min-w-0 flex-1 space-y-1.5">
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 text-xs text-muted-foreground">
+            <Link to={`/author/${comment.author_id}`} className="font-medium text-foreground hover:text-primary">
+              {displayName}
+            </Link>
+            {comment.author_id === postAuthorId && (
+              <span className="rounded-full bg-primary/10 px-1.5 py-0.5 text-[0.6rem] font-medium uppercase tracking-wide text-primary">
+                Author
+              </span>
+            )}
+            <span>{formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}</span>
+            {wasEdited && <span className="italic">(edited)</span>}
+            {comment.is_hidden && (
+              <span className="inline-flex items-center gap-1 text-destructive">
+                <EyeOff className="h-3 w-3" />
+                Hidden by moderators
+              </span>
+            )}
+          </div>
+
+          {mode === 'edit' ? (
+            <CommentForm
+              initialValue={comment.body}
+              submitLabel="Save"
+              isPending={isEditing}
+              autoFocus
+              onSubmit={async (body) => {
+                await onEdit(comment.id, body);
+                setMode('view');
+              }}
+              onCancel={() => setMode('view')}
+            />
+          ) : (
+            <div className={cn(comment.is_hidden && 'opacity-60')}>
+              <CommentBody body={comment.body} />
+            </div>
+          )}
+
+          {mode !== 'edit' && currentUserId && (
+            <div className="flex items-center gap-1 -ml-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1.5 px-2 text-xs text-muted-foreground hover:text-foreground"
+                onClick={() => setMode(mode === 'reply' ? 'view' : 'reply')}
+              >
+                <Reply className="h-3.5 w-3.5" />
+                Reply
+              </Button>
+              {isOwn && !comment.is_hidden && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1.5 px-2 text-xs text-muted-foreground hover:text-foreground"
+                  onClick={() => setMode('edit')}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                  Edit
+                </Button>
+              )}
+              {canDelete && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1.5 px-2 text-xs text-muted-foreground hover:text-destructive"
+                  onClick={() => onDelete(comment.id)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  Delete
+                </Button>
+              )}
+              {!isOwn && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1.5 px-2 text-xs text-muted-foreground hover:text-foreground"
+                  onClick={() => setIsReportOpen(true)}
+                >
+                  <Flag className="h-3.5 w-3.5" />
+                  Report
+                </Button>
+              )}
+            </div>
+          )}
+
+          {mode === 'reply' && (
+            <CommentForm
+              placeholder={`Reply to ${displayName}…`}
+              submitLabel="Reply"
+              isPending={isReplying}
+              autoFocus
+              onSubmit={async (body) => {
+                await onReply(comment.id, body);
+                setMode('view');
+              }}
+              onCancel={() => setMode('view')}
+            />
+          )}
+        </div>
+      </div>
+
+      {currentUserId && !isOwn && (
+        <ReportDialog targetType="comment" targetId={comment.id} open={isReportOpen} onOpenChange={setIsReportOpen} />
+      )}
+
+      {comment.replies.length > 0 && (
+        <ul
+          className={cn(
+            'space-y-4',
+            depth < MAX_INDENT_DEPTH && 'ml-4 border-l border-border/60 pl-4 sm:ml-5',
+          )}
+        >
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              depth={depth + 1}
+              currentUserId={currentUserId}
+              postAuthorId={postAuthorId}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              isReplying={isReplying}
+              isEditing={isEditing}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function CommentThread({ postId, postAuthorId }: CommentThreadProps) {
+  const { user } = useAuth();
+  const location = useLocation();
+  const queryClient = useQueryClient();
+
+  const { data: comments, isLoading, isError, refetch } = useQuery({
+    queryKey: ['comments', postId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('comments')
+        .select(`
+          id,
+          author_id,
+          parent_id,
+          body,
+          is_hidden,
+          created_at,
+          updated_at,
+          profiles (
+            display_name,
+            avatar_url
+          )
+        `)
+        .eq('post_id', postId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as Comment[];
+    },
+    enabled: !!postId,
+  });
+
+  const tree = useMemo(() => buildTree(comments ?? []), [comments]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['comments', postId] });
+
+  const addMutation = useMutation({
+    mutationFn: async ({ body, parentId }: { body: string; parentId: string | null }) => {
+      const { error } = await supabase.from('comments').insert({
+        post_id: postId,
+        author_id: user!.id,
+        parent_id: parentId,
+        body,
+      });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error('Error posting comment', error);
+      toast({ title: 'Error posting comment', description: 'Please try again.', variant: 'destructive' });
+    },
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async ({ commentId, body }: { commentId: string; body: string }) => {
+      const { error } = await supabase.from('comments').update({ body }).eq('id', commentId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error('Error editing comment', error);
+      toast({ title: 'Error saving comment', description: 'Please try again.', variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      const { error } = await supabase.from('comments').delete().eq('id', commentId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Comment deleted' });
+    },
+    onError: (error) => {
+      console.error('Error deleting comment', error);
+      toast({ title: 'Error deleting comment', description: 'Please try again.', variant: 'destructive' });
+    },
+  });
+
+  const handleDelete = (commentId: string) => {
+    if (window.confirm('Delete this comment and all of its replies?')) {
+      deleteMutation.mutate(commentId);
+    }
+  };
+
+  const commentCount = comments?.length ?? 0;
+  const redirect = encodeURIComponent(location.pathname + location.search);
+
+  return (
+    <section id="comments" className="mt-16 space-y-6 border-t border-border/50 pt-8">
+      <h2 className="flex items-center gap-2 font-display text-lg font-semibold tracking-tight">
+        <MessageCircle className="h-5 w-5" />
+        {commentCount > 0 ? `${commentCount} ${commentCount === 1 ? 'comment' : 'comments'}` : 'Comments'}
+      </h2>
+
+      {user ? (
+        <CommentForm
+          placeholder="Add to the conversation…"
+          submitLabel="Comment"
+          isPending={addMutation.isPending}
+          onSubmit={(body) => addMutation.mutateAsync({ body, parentId: null })}
+        />
+      ) : (
+        <p className="rounded-xl border border-dashed border-border/70 px-4 py-3 text-sm text-muted-foreground">
+          <Link to={`/auth?redirect=${redirect}`} className="font-medium text-primary hover:underline">
+            Sign in
+          </Link>{' '}
+          to join the conversation.
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2].map((i) => (
+            <div key={i} className="flex gap-3">
+              <Skeleton className="h-8 w-8 rounded-full" />
+              <div className="flex-1 space-y-2">
+                <Skeleton className="h-3 w-1/3" />
+                <Skeleton className="h-4 w-full" />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : isError ? (
+        <div className="space-y-3 py-6 text-center">
+          <p className="text-sm text-muted-foreground">We couldn't load the comments.</p>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            Try again
+          </Button>
+        </div>
+      ) : tree.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet. Start the conversation.</p>
+      ) : (
+        <ul className="space-y-6">
+          {tree.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              depth={0}
+              currentUserId={user?.id ?? null}
+              postAuthorId={postAuthorId}
+              onReply={(parentId, body) => addMutation.mutateAsync({ body, parentId })}
+              onEdit={(commentId, body) => editMutation.mutateAsync({ commentId, body })}
+              onDelete={handleDelete}
+              isReplying={addMutation.isPending}
+              isEditing={editMutation.isPending}
+            />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,65 @@
+import { useLocation, useNavigate } from 'react-router-dom';
+import { UserCheck, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFollowing } from '@/hooks/use-follows';
+import { cn } from '@/lib/utils';
+
+interface FollowButtonProps {
+  authorId: string;
+  className?: string;
+}
+
+export function FollowButton({ authorId, className }: FollowButtonProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { isFollowing, toggleFollow } = useFollowing();
+  const following = isFollowing(authorId);
+
+  // Nobody needs to follow themselves
+  if (user?.id === authorId) return null;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!user) {
+      navigate(`/auth?redirect=${encodeURIComponent(location.pathname + location.search)}`);
+      return;
+    }
+    toggleFollow(authorId);
+  };
+
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant={following ? 'outline' : 'default'}
+      onClick={handleClick}
+      aria-pressed={following}
+      className={cn('h-8 rounded-full px-4 text-xs', className)}
+    >
+      {following ? <UserCheck className="mr-1.5 h-3.5 w-3.5" /> : <UserPlus className="mr-1.5 h-3.5 w-3.5" />}
+      {following ? 'Following' : 'Follow'}
+    </Button>
+  );
+}
+
+interface FollowCountsProps {
+  followers: number;
+  following: number;
+  className?: string;
+}
+
+export function FollowCounts({ followers, following, className }: FollowCountsProps) {
+  return (
+    <span className={cn('inline-flex items-center gap-3', className)}>
+      <span>
+        <span className="font-semibold text-foreground">{followers}</span> {followers === 1 ? 'follower' : 'followers'}
+      </span>
+      <span>
+        <span className="font-semibold text-foreground">{following}</span> following
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Download, Globe2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+import { importPostFromUrl, type ImportedPost } from '@/lib/importPost';
+
+interface ImportFromUrlDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (post: ImportedPost) => void;
+  /** Warn before replacing what the writer already has in the editor */
+  hasExistingContent?: boolean;
+}
+
+export function ImportFromUrlDialog({ open, onOpenChange, onImport, hasExistingContent }: ImportFromUrlDialogProps) {
+  const [url, setUrl] = useState('');
+
+  const scrapeMutation = useMutation({
+    mutationFn: (target: string) => importPostFromUrl(target),
+  });
+
+  const preview = scrapeMutation.data;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setUrl('');
+      scrapeMutation.reset();
+    }
+    onOpenChange(next);
+  };
+
+  const handleFetch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (url.trim()) scrapeMutation.mutate(url);
+  };
+
+  const handleUse = () => {
+    if (!preview) return;
+    onImport(preview);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import from URL</DialogTitle>
+          <DialogDescription>
+            Bring in a piece you published elsewhere. The original link is kept as the canonical source.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleFetch} className="flex gap-2">
+          <Input
+            type="text"
+            inputMode="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://medium.com/@you/your-post"
+            autoFocus
+            className="text-sm"
+          />
+          <Button type="submit" variant="outline" disabled={!url.trim() || scrapeMutation.isPending} className="shrink-0">
+            {scrapeMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Fetch
+          </Button>
+        </form>
+
+        {scrapeMutation.isError && (
+          <p className="text-sm text-destructive">
+            {scrapeMutation.error instanceof Error ? scrapeMutation.error.message : 'Could not fetch that page'}
+          </p>
+        )}
+
+        {preview && (
+          <div className="space-y-3 rounded-xl border border-border/60 p-4">
+            <div className="space-y-1">
+              <p className="font-display text-lg font-semibold leading-snug">{preview.title}</p>
+              <p className="flex items-center gap-1.5 truncate text-xs text-muted-foreground">
+                <Globe2 className="h-3.5 w-3.5 shrink-0" />
+                {preview.canonicalUrl}
+              </p>
+              {preview.excerpt && <p className="text-sm text-muted-foreground">{preview.excerpt}</p>}
+            </div>
+            <ScrollArea className="h-64 rounded-lg border border-border/50 bg-muted/20">
+              <MarkdownRenderer content={preview.content_markdown} className="p-4 text-sm" />
+            </ScrollArea>
+            {hasExistingContent && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                This replaces the title, excerpt and content currently in the editor.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleUse} disabled={!preview}>
+            Use this post
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { DiffRow } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+
+interface MarkdownDiffProps {
+  rows: DiffRow[];
+  leftLabel?: string;
+  rightLabel?: string;
+  className?: string;
+}
+
+export function MarkdownDiff({ rows, leftLabel, rightLabel, className }: MarkdownDiffProps) {
+  return (
+    <div className={cn('overflow-x-auto rounded-xl border border-border/60', className)}>
+      <table className="w-full table-fixed border-collapse font-mono text-[0.7rem] leading-relaxed sm:text-xs">
+        {(leftLabel || rightLabel) && (
+          <thead>
+            <tr className="border-b border-border/60 bg-muted/40 text-left font-sans text-[0.65rem] uppercase tracking-[0.16em] text-muted-foreground">
+              <th colSpan={2} className="border-r border-border/60 px-2 py-1.5 font-medium">
+                {leftLabel}
+              </th>
+              <th colSpan={2} className="px-2 py-1.5 font-medium">
+                {rightLabel}
+              </th>
+            </tr>
+          </thead>
+        )}
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className="align-top">
+              <td className="w-8 select-none border-r border-border/40 px-1.5 text-right text-muted-foreground/60">
+                {row.leftNumber ?? ''}
+              </td>
+              <td
+                className={cn(
+                  'whitespace-pre-wrap break-words border-r border-border/60 px-2',
+                  (row.type === 'removed' || row.type === 'changed') && 'bg-destructive/10',
+                )}
+              >
+                {row.left}
+              </td>
+              <td className="w-8 select-none border-r border-border/40 px-1.5 text-right text-muted-foreground/60">
+                {row.rightNumber ?? ''}
+              </td>
+              <td
+                className={cn(
+                  'whitespace-pre-wrap break-words px-2',
+                  (row.type === 'added' || row.type === 'changed') && 'bg-emerald-500/10',
+                )}
+              >
+                {row.right}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useRef, useState, type ComponentPropsWithoutRef } from 'react';
+import ReactMarkdown, { type Components, type ExtraProps } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSlug from 'rehype-slug';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface MarkdownRendererProps {
+  content: string;
+  id?: string;
+  className?: string;
+}
+
+function CodeBlock({ node, children, ...props }: ComponentPropsWithoutRef<'pre'> & ExtraProps) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({
+        title: 'Failed to copy code',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="group relative">
+      <pre ref={preRef} {...props}>
+        {children}
+      </pre>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute right-2 top-2 inline-flex h-7 w-7 items-center justify-center rounded-md border border-border/60 bg-background/80 text-muted-foreground opacity-0 transition-opacity hover:text-foreground focus-visible:opacity-100 group-hover:opacity-100"
+        aria-label={copied ? 'Copied' : 'Copy code'}
+      >
+        {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+      </button>
+    </div>
+  );
+}
+
+// rehype-slug gives every heading an id; the hover link makes it easy to share
+const anchoredHeading = (Tag: 'h1' | 'h2' | 'h3' | 'h4') =>
+  function AnchoredHeading({ node, id, className, children, ...props }: ComponentPropsWithoutRef<'h1'> & ExtraProps) {
+    return (
+      <Tag id={id} {...props} className={cn('group scroll-mt-24', className)}>
+        {children}
+        {id && (
+          <a href={`#${id}`} className="heading-anchor" aria-label="Link to this section">
+            #
+          </a>
+        )}
+      </Tag>
+    );
+  };
+
+const components: Components = {
+  pre: CodeBlock,
+  h1: anchoredHeading('h1'),
+  h2: anchoredHeading('h2'),
+  h3: anchoredHeading('h3'),
+  h4: anchoredHeading('h4'),
+};
+
+/** Renders post markdown the same way everywhere: GFM, highlighted code and linkable headings */
+export function MarkdownRenderer({ content, id, className }: MarkdownRendererProps) {
+  return (
+    <div id={id} className={cn('post-prose', className)}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSlug, rehypeHighlight]} components={components}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
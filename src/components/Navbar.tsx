@@ -4,10 +4,10 @@ import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { BookOpen, LogOut, LayoutDashboard, Settings } from 'lucide-react';
+import { BarChart3, Bookmark, BookOpen, LogOut, LayoutDashboard, Search, Settings, ShieldCheck } from 'lucide-react';
 
 export function Navbar() {
-  const { user, signOut } = useAuth();
+  const { user, signOut, hasRole } = useAuth();
   const navigate = useNavigate();
 
   const getInitials = (email: string) => {
@@ -30,6 +30,12 @@ export function Navbar() {
         </Link>
 
         <div className="flex items-center gap-3 sm:gap-4">
+          <Button asChild variant="ghost" size="icon" className="rounded-full">
+            <Link to="/search">
+              <Search className="h-5 w-5" />
+              <span className="sr-only">Search</span>
+            </Link>
+          </Button>
           <ThemeToggle />
 
           {user ? (
@@ -61,6 +67,13 @@ export function Navbar() {
                   <LayoutDashboard className="mr-2 h-4 w-4" />
                   Dashboard
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => navigate('/reading-list')}
+                  className="cursor-pointer transition-colors"
+                >
+                  <Bookmark className="mr-2 h-4 w-4" />
+                  Reading list
+                </DropdownMenuItem>
                 <DropdownMenuItem
                   onClick={() => navigate('/settings')}
                   className="cursor-pointer transition-colors"
@@ -68,6 +81,24 @@ export function Navbar() {
                   <Settings className="mr-2 h-4 w-4" />
                   Profile
                 </DropdownMenuItem>
+                {hasRole('moderator') && (
+                  <DropdownMenuItem
+                    onClick={() => navigate('/moderation')}
+                    className="cursor-pointer transition-colors"
+                  >
+                    <ShieldCheck className="mr-2 h-4 w-4" />
+                    Moderation
+                  </DropdownMenuItem>
+                )}
+                {hasRole('admin') && (
+                  <DropdownMenuItem
+                    onClick={() => navigate('/admin/usage')}
+                    className="cursor-pointer transition-colors"
+                  >
+                    <BarChart3 className="mr-2 h-4 w-4" />
+                    Usage
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem
                   onClick={signOut}
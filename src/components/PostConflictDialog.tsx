@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { MarkdownDiff } from '@/components/MarkdownDiff';
+import { diffLines, mergeWithConflictMarkers } from '@/lib/diff';
+import { PostDraftValues } from '@/hooks/use-post-autosave';
+
+export interface ServerPostCopy {
+  title: string;
+  excerpt: string | null;
+  content_markdown: string;
+  tags: string[];
+  category: string | null;
+  updated_at: string;
+}
+
+interface PostConflictDialogProps {
+  open: boolean;
+  local: PostDraftValues;
+  server: ServerPostCopy | null;
+  onKeepLocal: () => void;
+  onUseServer: () => void;
+  onMerge: (mergedContent: string) => void;
+}
+
+export function PostConflictDialog({ open, local, server, onKeepLocal, onUseServer, onMerge }: PostConflictDialogProps) {
+  const [isMerging, setIsMerging] = useState(false);
+  const [mergedContent, setMergedContent] = useState('');
+
+  useEffect(() => {
+    if (!open) setIsMerging(false);
+  }, [open]);
+
+  const rows = useMemo(
+    () => (server ? diffLines(server.content_markdown, local.content_markdown ?? '') : []),
+    [server, local.content_markdown],
+  );
+
+  const startMerge = () => {
+    if (!server) return;
+    setMergedContent(mergeWithConflictMarkers(local.content_markdown ?? '', server.content_markdown));
+    setIsMerging(true);
+  };
+
+  const hasUnresolvedMarkers = /^(<<<<<<<|=======|>>>>>>>)/m.test(mergedContent);
+
+  return (
+    // The dialog can only be closed by picking a resolution
+    <Dialog open={open}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl [&>button]:hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 font-display">
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+            This post changed somewhere else
+          </DialogTitle>
+          <DialogDescription>
+            {server
+              ? `Another tab or device saved this post ${formatDistanceToNow(new Date(server.updated_at), { addSuffix: true })}. `
+              : ''}
+            Choose which version to keep, or merge them by hand.
+          </DialogDescription>
+        </DialogHeader>
+
+        {server && !isMerging && (
+          <div className="space-y-3">
+            {server.title !== (local.title ?? '') && (
+              <p className="text-xs text-muted-foreground">
+                Title: <span className="line-through">{server.title}</span> →{' '}
+                <span className="font-medium text-foreground">{local.title}</span>
+              </p>
+            )}
+            {rows.some((row) => row.type !== 'equal') ? (
+              <MarkdownDiff rows={rows} leftLabel="Server copy" rightLabel="Your changes" className="max-h-[50vh] overflow-y-auto" />
+            ) : (
+              <p className="py-4 text-center text-sm text-muted-foreground">
+                The content is identical — only other fields differ.
+              </p>
+            )}
+          </div>
+        )}
+
+        {isMerging && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Edit the merged content below. Remove the <code>&lt;&lt;&lt;&lt;&lt;&lt;&lt;</code>,{' '}
+              <code>=======</code> and <code>&gt;&gt;&gt;&gt;&gt;&gt;&gt;</code> markers once each block is resolved.
+            </p>
+            <Textarea
+              value={mergedContent}
+              onChange={(e) => setMergedContent(e.target.value)}
+              rows={18}
+              className="font-mono text-xs md:text-sm leading-relaxed"
+            />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {isMerging ? (
+            <>
+              <Button type="button" variant="ghost" onClick={() => setIsMerging(false)}>
+                Back
+              </Button>
+              <Button type="button" onClick={() => onMerge(mergedContent)} disabled={hasUnresolvedMarkers}>
+                Use merged content
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={startMerge} disabled={!server}>
+                <GitMerge className="mr-2 h-4 w-4" />
+                Merge
+              </Button>
+              <Button type="button" variant="outline" onClick={onUseServer} disabled={!server}>
+                Use server copy
+              </Button>
+              <Button type="button" onClick={onKeepLocal}>
+                Keep my changes
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
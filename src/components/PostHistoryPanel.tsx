@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MarkdownDiff } from '@/components/MarkdownDiff';
+import { diffLines } from '@/lib/diff';
+
+export interface PostRevision {
+  id: string;
+  title: string;
+  excerpt: string | null;
+  content_markdown: string;
+  tags: string[];
+  category: string | null;
+  created_at: string;
+}
+
+interface PostHistoryPanelProps {
+  postId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (revision: PostRevision) => void;
+}
+
+const describeRevision = (revision: PostRevision) =>
+  `${format(new Date(revision.created_at), 'MMM d, yyyy · HH:mm')} — ${revision.title || 'Untitled'}`;
+
+export function PostHistoryPanel({ postId, open, onOpenChange, onRestore }: PostHistoryPanelProps) {
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const { data: revisions, isLoading, isError, refetch } = useQuery({
+    queryKey: ['post-revisions', postId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('post_revisions')
+        .select('id, title, excerpt, content_markdown, tags, category, created_at')
+        .eq('post_id', postId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as PostRevision[];
+    },
+    enabled: open && !!postId,
+  });
+
+  // Default to comparing the latest revision against the one before it
+  useEffect(() => {
+    if (!revisions || revisions.length === 0) return;
+    setCompareId((current) => current ?? revisions[0].id);
+    setBaseId((current) => current ?? (revisions[1] ?? revisions[0]).id);
+  }, [revisions]);
+
+  const base = revisions?.find((revision) => revision.id === baseId) ?? null;
+  const compare = revisions?.find((revision) => revision.id === compareId) ?? null;
+
+  const rows = useMemo(() => {
+    if (!base || !compare) return [];
+    return diffLines(base.content_markdown, compare.content_markdown);
+  }, [base, compare]);
+
+  const metadataChanges = useMemo(() => {
+    if (!base || !compare) return [] as { label: string; before: string; after: string }[];
+    const fields = [
+      { label: 'Title', before: base.title, after: compare.title },
+      { label: 'Excerpt', before: base.excerpt ?? '', after: compare.excerpt ?? '' },
+      { label: 'Category', before: base.category ?? '', after: compare.category ?? '' },
+      { label: 'Tags', before: base.tags.join(', '), after: compare.tags.join(', ') },
+    ];
+    return fields.filter((field) => field.before !== field.after);
+  }, [base, compare]);
+
+  const hasContentChanges = rows.some((row) => row.type !== 'equal');
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full overflow-y-auto sm:max-w-3xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2 font-display">
+            <History className="h-4 w-4" />
+            Revision history
+          </SheetTitle>
+          <SheetDescription>
+            Every save keeps a snapshot. Compare any two and restore one into the editor.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-9 w-full" />
+              <Skeleton className="h-9 w-full" />
+              <Skeleton className="h-48 w-full" />
+            </div>
+          ) : isError ? (
+            <div className="space-y-3 py-10 text-center">
+              <p className="text-sm text-muted-foreground">We couldn't load the revision history.</p>
+              <Button type="button" variant="outline" size="sm" onClick={() => refetch()} className="rounded-full px-4">
+                Try again
+              </Button>
+            </div>
+          ) : !revisions || revisions.length === 0 ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">
+              No revisions yet. Save the post to create the first one.
+            </p>
+          ) : (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {[
+                  { label: 'Compare from', value: baseId, onChange: setBaseId, revision: base },
+                  { label: 'Compare to', value: compareId, onChange: setCompareId, revision: compare },
+                ].map(({ label, value, onChange, revision }) => (
+                  <div key={label} className="space-y-2">
+                    <span className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground">
+                      {label}
+                    </span>
+                    <Select value={value ?? undefined} onValueChange={onChange}>
+                      <SelectTrigger className="text-xs sm:text-sm">
+                        <SelectValue placeholder="Pick a revision" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {revisions.map((item) => (
+                          <SelectItem key={item.id} value={item.id} className="text-xs sm:text-sm">
+                            {describeRevision(item)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {revision && (
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-[0.7rem] text-muted-foreground">
+                          Saved {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                        </span>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          className="h-7 rounded-full px-3 text-[0.7rem] font-medium"
+                          onClick={() => onRestore(revision)}
+                        >
+                          <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+                          Restore
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {metadataChanges.length > 0 && (
+                <div className="space-y-2 rounded-xl border border-border/60 bg-muted/30 p-3">
+                  {metadataChanges.map((change) => (
+                    <div key={change.label} className="grid gap-1 text-xs sm:grid-cols-[5rem_1fr_1fr] sm:gap-3">
+                      <span className="font-medium uppercase tracking-[0.16em] text-muted-foreground">
+                        {change.label}
+                      </span>
+                      <span className="break-words rounded bg-destructive/10 px-1.5 py-0.5 line-through decoration-destructive/50">
+                        {change.before || '—'}
+                      </span>
+                      <span className="break-words rounded bg-emerald-500/10 px-1.5 py-0.5">
+                        {change.after || '—'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {!hasContentChanges ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  The content of these revisions is identical.
+                </p>
+              ) : (
+                <MarkdownDiff rows={rows} />
+              )}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
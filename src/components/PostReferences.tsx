@@ -0,0 +1,54 @@
+import { useMemo } from 'react';
+import type { Tables } from '@/integrations/supabase/types';
+import { extractLinks, siteNameFromUrl } from '@/lib/references';
+
+type PostSource = Pick<Tables<'post_sources'>, 'url' | 'title' | 'site_name'>;
+
+interface PostReferencesProps {
+  markdown: string;
+  sources: PostSource[];
+}
+
+export function PostReferences({ markdown, sources }: PostReferencesProps) {
+  const references = useMemo(() => {
+    const byUrl = new Map(sources.map((source) => [source.url, source]));
+    return extractLinks(markdown).map((link) => {
+      const source = byUrl.get(link.url);
+      return {
+        url: link.url,
+        // Link text that just repeats the URL says nothing a reader can cite
+        title: source?.title || (link.text !== link.url ? link.text : null),
+        siteName: source?.site_name || siteNameFromUrl(link.url),
+      };
+    });
+  }, [markdown, sources]);
+
+  if (references.length === 0) return null;
+
+  return (
+    <section aria-labelledby="references-heading" className="mt-12 space-y-3">
+      <h2
+        id="references-heading"
+        className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground"
+      >
+        References
+      </h2>
+      <ol className="list-decimal space-y-2 pl-5 text-sm text-muted-foreground marker:text-muted-foreground/70">
+        {references.map((reference) => (
+          <li key={reference.url} className="break-words pl-1 leading-relaxed">
+            {reference.title && <span className="text-foreground">{reference.title}. </span>}
+            <span className="italic">{reference.siteName}</span>.{' '}
+            <a
+              href={reference.url}
+              target="_blank"
+              rel="noreferrer"
+              className="underline underline-offset-4 hover:text-foreground"
+            >
+              {reference.url}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -1,17 +1,20 @@
 import { ReactNode } from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAuth, type AppRole } from '@/contexts/AuthContext';
 import { Skeleton } from '@/components/ui/skeleton';
+import Forbidden from '@/pages/Forbidden';
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  /** Signed-in users without this role get a 403 instead of the page */
+  requiredRole?: AppRole;
 }
 
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { user, loading } = useAuth();
+export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps) {
+  const { user, loading, rolesLoading, hasRole } = useAuth();
   const location = useLocation();
 
-  if (loading) {
+  if (loading || (requiredRole && rolesLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="space-y-4 w-full max-w-md p-6">
@@ -28,5 +31,9 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     return <Navigate to={`/auth?redirect=${redirect}`} replace />;
   }
 
+  if (requiredRole && !hasRole(requiredRole)) {
+    return <Forbidden />;
+  }
+
   return <>{children}</>;
 }
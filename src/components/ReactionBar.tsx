@@ -0,0 +1,77 @@
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { REACTIONS, getReactionTotal, usePostReactions, type ReactionCounts } from '@/hooks/use-reactions';
+import { cn } from '@/lib/utils';
+
+interface ReactionBarProps {
+  postId: string;
+  className?: string;
+}
+
+export function ReactionBar({ postId, className }: ReactionBarProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { counts, hasReacted, toggleReaction } = usePostReactions(postId);
+
+  return (
+    <div role="group" aria-label="Reactions" className={cn('flex flex-wrap items-center gap-2', className)}>
+      {REACTIONS.map(({ type, emoji, label }) => {
+        const reacted = hasReacted(type);
+        const count = counts[type] ?? 0;
+        return (
+          <button
+            key={type}
+            type="button"
+            onClick={() => {
+              if (!user) {
+                navigate(`/auth?redirect=${encodeURIComponent(location.pathname + location.search)}`);
+                return;
+              }
+              toggleReaction(type);
+            }}
+            aria-pressed={reacted}
+            aria-label={`${label} (${count})`}
+            title={label}
+            className={cn(
+              'inline-flex h-9 items-center gap-1.5 rounded-full border px-3 text-sm transition-colors',
+              reacted
+                ? 'border-primary/50 bg-primary/10 text-primary'
+                : 'border-border/60 bg-background text-muted-foreground hover:border-primary/30 hover:text-foreground',
+            )}
+          >
+            <span aria-hidden="true">{emoji}</span>
+            {count > 0 && <span className="tabular-nums">{count}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+interface ReactionSummaryProps {
+  counts: ReactionCounts | undefined;
+  className?: string;
+}
+
+/** The post's most used reactions and their total, for feed cards */
+export function ReactionSummary({ counts, className }: ReactionSummaryProps) {
+  const total = getReactionTotal(counts);
+  if (total === 0) return null;
+
+  const top = REACTIONS.filter(({ type }) => counts?.[type])
+    .sort((a, b) => (counts?.[b.type] ?? 0) - (counts?.[a.type] ?? 0))
+    .slice(0, 3);
+
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1 text-[0.65rem] text-muted-foreground', className)}
+      aria-label={`${total} ${total === 1 ? 'reaction' : 'reactions'}`}
+    >
+      <span aria-hidden="true" className="tracking-tighter">
+        {top.map(({ emoji }) => emoji).join('')}
+      </span>
+      <span className="tabular-nums">{total}</span>
+    </span>
+  );
+}
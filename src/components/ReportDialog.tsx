@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { REPORT_REASONS, type ReportReason, type ReportTargetType } from '@/lib/moderation';
+
+interface ReportDialogProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReportDialog({ targetType, targetId, open, onOpenChange }: ReportDialogProps) {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('content_reports').insert({
+        target_type: targetType,
+        target_id: targetId,
+        reporter_id: user!.id,
+        reason,
+        details: details.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Report sent',
+        description: 'Thanks for letting us know. A moderator will take a look.',
+      });
+      setDetails('');
+      onOpenChange(false);
+    },
+    onError: (error: { code?: string }) => {
+      // Unique (target, reporter): the reader already flagged this
+      if (error.code === '23505') {
+        toast({ title: 'Already reported', description: 'You have already reported this.' });
+        onOpenChange(false);
+        return;
+      }
+      console.error('Error sending report', error);
+      toast({ title: 'Error sending report', description: 'Please try again.', variant: 'destructive' });
+    },
+  });
+
+  const noun = targetType === 'post' ? 'post' : 'comment';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report this {noun}</DialogTitle>
+          <DialogDescription>
+            Reports are private. Moderators review them and decide whether the {noun} stays up.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)} className="gap-3">
+          {REPORT_REASONS.map((item) => (
+            <Label
+              key={item.value}
+              htmlFor={`report-${item.value}`}
+              className="flex cursor-pointer items-start gap-3 rounded-xl border border-border/60 p-3 font-normal hover:bg-muted/40"
+            >
+              <RadioGroupItem id={`report-${item.value}`} value={item.value} className="mt-0.5" />
+              <span className="space-y-0.5">
+                <span className="block text-sm font-medium">{item.label}</span>
+                <span className="block text-xs text-muted-foreground">{item.description}</span>
+              </span>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          placeholder={reason === 'other' ? 'What is wrong with it?' : 'Anything else moderators should know? (optional)'}
+          rows={3}
+          maxLength={1000}
+          className="resize-none text-sm"
+        />
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={reportMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => reportMutation.mutate()}
+            disabled={reportMutation.isPending || (reason === 'other' && !details.trim())}
+          >
+            {reportMutation.isPending ? 'Sending…' : 'Send report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { ExternalLink, Link2, Loader2, Quote, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { firecrawlApi, type SearchOptions, type SearchResult } from '@/lib/api/firecrawl';
+import { siteNameFromUrl } from '@/lib/references';
+
+export interface ResearchSource {
+  url: string;
+  title: string | null;
+  siteName: string;
+}
+
+interface ResearchPanelProps {
+  /** Block snippets (quotes) need their own paragraph; inline ones (links) go right at the cursor */
+  onInsert: (markdown: string, options: { block: boolean; source: ResearchSource }) => void;
+  onClose: () => void;
+}
+
+// Radix selects can't hold an empty value, so "no preference" gets a sentinel
+const ANY = 'any';
+
+const LANGUAGES = [
+  { value: ANY, label: 'Any language' },
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'it', label: 'Italian' },
+  { value: 'ja', label: 'Japanese' },
+];
+
+const COUNTRIES = [
+  { value: ANY, label: 'Anywhere' },
+  { value: 'us', label: 'United States' },
+  { value: 'gb', label: 'United Kingdom' },
+  { value: 'ca', label: 'Canada' },
+  { value: 'au', label: 'Australia' },
+  { value: 'in', label: 'India' },
+  { value: 'de', label: 'Germany' },
+  { value: 'fr', label: 'France' },
+];
+
+// Google's tbs time filters
+const TIME_RANGES = [
+  { value: ANY, label: 'Any time' },
+  { value: 'qdr:d', label: 'Past day' },
+  { value: 'qdr:w', label: 'Past week' },
+  { value: 'qdr:m', label: 'Past month' },
+  { value: 'qdr:y', label: 'Past year' },
+];
+
+const RESULT_LIMIT = 8;
+
+// Square brackets in a title would end the link text early
+const escapeLinkText = (text: string) => text.replace(/([[\]])/g, '\\$1');
+
+const sourceFor = (result: SearchResult): ResearchSource => ({
+  url: result.url,
+  title: result.title?.trim() || result.metadata?.title?.trim() || null,
+  siteName: result.metadata?.ogSiteName?.trim() || siteNameFromUrl(result.url),
+});
+
+const citationFor = (result: SearchResult) =>
+  `[${escapeLinkText(result.title?.trim() || siteNameFromUrl(result.url))}](${result.url})`;
+
+const quoteFor = (result: SearchResult) => {
+  const lines = (result.description ?? '').trim().split('\n').map((line) => `> ${line}`.trimEnd());
+  return [...lines, '>', `> — ${citationFor(result)}`].join('\n');
+};
+
+export function ResearchPanel({ onInsert, onClose }: ResearchPanelProps) {
+  const [query, setQuery] = useState('');
+  const [lang, setLang] = useState(ANY);
+  const [country, setCountry] = useState(ANY);
+  const [tbs, setTbs] = useState(ANY);
+
+  const searchMutation = useMutation({
+    mutationFn: async (search: string) => {
+      const options: SearchOptions = {
+        limit: RESULT_LIMIT,
+        lang: lang === ANY ? undefined : lang,
+        country: country === ANY ? undefined : country,
+        tbs: tbs === ANY ? undefined : tbs,
+      };
+      const result = await firecrawlApi.search(search, options);
+      if (!result.success) throw new Error(result.error || 'Search failed');
+      return (result.data ?? []) as SearchResult[];
+    },
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (query.trim()) searchMutation.mutate(query.trim());
+  };
+
+  const results = searchMutation.data;
+
+  return (
+    <Card className="border-border/60 shadow-sm">
+      <CardContent className="space-y-4 p-4">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground">Research</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={onClose}
+            className="h-7 w-7 rounded-full"
+            aria-label="Close research panel"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Look something up…"
+            className="text-sm"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            size="icon"
+            disabled={!query.trim() || searchMutation.isPending}
+            className="shrink-0"
+            aria-label="Search"
+          >
+            {searchMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          </Button>
+        </form>
+
+        <div className="grid grid-cols-3 gap-2">
+          {[
+            { value: lang, onChange: setLang, items: LANGUAGES, label: 'Language' },
+            { value: country, onChange: setCountry, items: COUNTRIES, label: 'Country' },
+            { value: tbs, onChange: setTbs, items: TIME_RANGES, label: 'Time range' },
+          ].map(({ value, onChange, items, label }) => (
+            <Select key={label} value={value} onValueChange={onChange}>
+              <SelectTrigger className="h-8 text-xs" aria-label={label}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {items.map((item) => (
+                  <SelectItem key={item.value} value={item.value} className="text-xs">
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+        </div>
+
+        {searchMutation.isError && (
+          <p className="text-sm text-destructive">
+            {searchMutation.error instanceof Error ? searchMutation.error.message : 'Search failed'}
+          </p>
+        )}
+
+        {results &&
+          (results.length > 0 ? (
+            <ul className="space-y-3">
+              {results.map((result) => (
+                <li key={result.url} className="space-y-2 rounded-xl border border-border/60 p-3">
+                  <div className="space-y-0.5">
+                    <a
+                      href={result.url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="group flex items-start gap-1 text-sm font-medium leading-snug hover:text-primary"
+                    >
+                      <span className="line-clamp-2">{result.title || result.url}</span>
+                      <ExternalLink className="mt-0.5 h-3 w-3 shrink-0 opacity-0 transition-opacity group-hover:opacity-100" />
+                    </a>
+                    <p className="truncate text-[0.7rem] text-muted-foreground">{siteNameFromUrl(result.url)}</p>
+                  </div>
+                  {result.description && (
+                    <p className="line-clamp-4 text-xs leading-relaxed text-muted-foreground">{result.description}</p>
+                  )}
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onInsert(citationFor(result), { block: false, source: sourceFor(result) })}
+                      className="h-7 rounded-full px-3 text-[0.7rem]"
+                    >
+                      <Link2 className="mr-1.5 h-3.5 w-3.5" />
+                      Cite
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onInsert(quoteFor(result), { block: true, source: sourceFor(result) })}
+                      disabled={!result.description}
+                      className="h-7 rounded-full px-3 text-[0.7rem]"
+                    >
+                      <Quote className="mr-1.5 h-3.5 w-3.5" />
+                      Quote
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="py-6 text-center text-sm text-muted-foreground">No results. Try different words.</p>
+          ))}
+
+        {!results && !searchMutation.isPending && (
+          <p className="text-xs text-muted-foreground">
+            Results land here. Cite drops a link at your cursor; Quote adds the snippet as a block quote.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { format, isBefore, startOfDay } from 'date-fns';
+import { CalendarClock, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+interface SchedulePickerProps {
+  value: Date | null;
+  onChange: (value: Date | null) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_TIME = '09:00';
+
+const withTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const next = new Date(day);
+  next.setHours(hours || 0, minutes || 0, 0, 0);
+  return next;
+};
+
+export function SchedulePicker({ value, onChange, disabled }: SchedulePickerProps) {
+  const [open, setOpen] = useState(false);
+  const time = value ? format(value, 'HH:mm') : DEFAULT_TIME;
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={disabled}
+            className={cn(
+              'justify-start rounded-xl border-border/50 bg-background/50 text-sm md:text-base',
+              !value && 'text-muted-foreground',
+            )}
+          >
+            <CalendarClock className="mr-2 h-4 w-4" />
+            {value ? format(value, "MMM d, yyyy 'at' HH:mm") : 'Schedule for later'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="single"
+            selected={value ?? undefined}
+            onSelect={(day) => onChange(day ? withTime(day, time) : null)}
+            disabled={(day) => isBefore(day, startOfDay(new Date()))}
+            initialFocus
+          />
+          <div className="flex items-center gap-2 border-t border-border/60 p-3">
+            <span className="text-xs font-medium uppercase tracking-[0.16em] text-muted-foreground">Time</span>
+            <Input
+              type="time"
+              value={time}
+              onChange={(e) => value && onChange(withTime(value, e.target.value))}
+              disabled={!value}
+              className="h-8 w-28 text-sm"
+            />
+            <Button type="button" size="sm" className="ml-auto h-8" onClick={() => setOpen(false)}>
+              Done
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-9 w-9 text-muted-foreground hover:text-foreground"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+        >
+          <X className="h-4 w-4" />
+          <span className="sr-only">Clear schedule</span>
+        </Button>
+      )}
+    </div>
+  );
+}
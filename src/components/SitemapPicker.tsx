@@ -0,0 +1,460 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle2, ChevronRight, Clock, Copy, Hourglass, Loader2, Map as MapIcon, Search, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { firecrawlApi } from '@/lib/api/firecrawl';
+import { createImportedDraft, importPostFromUrl, normalizeUrl, RateLimitedError, type ImportedPost } from '@/lib/importPost';
+import { cn } from '@/lib/utils';
+
+interface UrlTreeNode {
+  /** Host for top-level nodes, otherwise a single path segment */
+  label: string;
+  key: string;
+  /** Set when the node itself is a page, not just a folder */
+  url: string | null;
+  children: UrlTreeNode[];
+}
+
+type QueueStatus = 'queued' | 'scraping' | 'waiting' | 'done' | 'failed';
+
+interface QueueEntry {
+  status: QueueStatus;
+  postId?: string;
+  error?: string;
+}
+
+const MAP_LIMIT = 500;
+// A per-minute limit clears within this; a longer wait means the daily quota is spent
+const MAX_RATE_LIMIT_WAIT_SECONDS = 90;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Listing pages, feeds and assets rarely make sense as posts
+const NON_POST_PATTERN =
+  /\/(tags?|categor(y|ies)|authors?|page|feed|rss|archives?|search|about|contact|privacy|terms|login|signup|subscribe)(\/|$)|\.(xml|json|txt|pdf|jpe?g|png|gif|webp|svg|css|js)$/i;
+
+const isLikelyPost = (url: string) => {
+  try {
+    const { pathname } = new URL(url);
+    return pathname !== '/' && !NON_POST_PATTERN.test(pathname);
+  } catch {
+    return false;
+  }
+};
+
+function buildUrlTree(urls: string[]): UrlTreeNode[] {
+  const roots: UrlTreeNode[] = [];
+
+  const childFor = (siblings: UrlTreeNode[], label: string, key: string) => {
+    let node = siblings.find((candidate) => candidate.key === key);
+    if (!node) {
+      node = { label, key, url: null, children: [] };
+      siblings.push(node);
+    }
+    return node;
+  };
+
+  urls.forEach((url) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return;
+    }
+
+    let node = childFor(roots, parsed.host, parsed.host);
+    let key = parsed.host;
+    parsed.pathname
+      .split('/')
+      .filter(Boolean)
+      .forEach((segment) => {
+        key = `${key}/${segment}`;
+        let label = segment;
+        // new URL() lets a stray "%" through, which decoding rejects
+        try {
+          label = decodeURIComponent(segment);
+        } catch {
+          // Show the segment as it appears in the URL
+        }
+        node = childFor(node.children, label, key);
+      });
+    node.url = url;
+  });
+
+  const sortNodes = (nodes: UrlTreeNode[]) => {
+    nodes.sort((a, b) => a.label.localeCompare(b.label));
+    nodes.forEach((node) => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+}
+
+const collectUrls = (node: UrlTreeNode): string[] => [
+  ...(node.url ? [node.url] : []),
+  ...node.children.flatMap(collectUrls),
+];
+
+const STATUS_ICONS: Record<QueueStatus, JSX.Element> = {
+  queued: <Clock className="h-3.5 w-3.5 text-muted-foreground" />,
+  scraping: <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />,
+  waiting: <Hourglass className="h-3.5 w-3.5 text-muted-foreground" />,
+  done: <CheckCircle2 className="h-3.5 w-3.5 text-emerald-600 dark:text-emerald-400" />,
+  failed: <XCircle className="h-3.5 w-3.5 text-destructive" />,
+};
+
+interface UrlTreeItemProps {
+  node: UrlTreeNode;
+  depth: number;
+  selected: Set<string>;
+  onToggle: (urls: string[], checked: boolean) => void;
+  collapsed: Set<string>;
+  onToggleCollapsed: (key: string) => void;
+  queue: Record<string, QueueEntry>;
+  existingUrls: Set<string>;
+  disabled: boolean;
+}
+
+function UrlTreeItem({
+  node,
+  depth,
+  selected,
+  onToggle,
+  collapsed,
+  onToggleCollapsed,
+  queue,
+  existingUrls,
+  disabled,
+}: UrlTreeItemProps) {
+  const urls = useMemo(
+    () => collectUrls(node).filter((url) => queue[url]?.status !== 'done'),
+    [node, queue],
+  );
+  const selectedCount = urls.filter((url) => selected.has(url)).length;
+  const isOpen = !collapsed.has(node.key);
+  const hasChildren = node.children.length > 0;
+  const entry = node.url ? queue[node.url] : undefined;
+
+  return (
+    <li>
+      <div
+        className="flex items-center gap-2 py-1.5 pr-3 hover:bg-muted/40"
+        style={{ paddingLeft: `${depth * 1.25 + 0.75}rem` }}
+      >
+        {hasChildren ? (
+          <button
+            type="button"
+            onClick={() => onToggleCollapsed(node.key)}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={isOpen ? `Collapse ${node.label}` : `Expand ${node.label}`}
+          >
+            <ChevronRight className={cn('h-4 w-4 transition-transform', isOpen && 'rotate-90')} />
+          </button>
+        ) : (
+          <span className="w-4" />
+        )}
+        <Checkbox
+          checked={selectedCount === 0 ? false : selectedCount === urls.length ? true : 'indeterminate'}
+          onCheckedChange={(checked) => onToggle(urls, checked === true)}
+          disabled={disabled || urls.length === 0}
+          aria-label={`Select ${node.label}`}
+        />
+        <span
+          className={cn('min-w-0 flex-1 truncate text-sm', node.url ? 'text-foreground' : 'text-muted-foreground')}
+          title={node.url ?? node.key}
+        >
+          {node.label}
+          {hasChildren && <span className="ml-1.5 text-xs text-muted-foreground">({collectUrls(node).length})</span>}
+        </span>
+        {node.url && existingUrls.has(node.url) && !entry && (
+          <span className="inline-flex shrink-0 items-center gap-1 rounded-full bg-amber-500/10 px-2 py-0.5 text-[0.65rem] font-medium text-amber-600 dark:text-amber-400">
+            <Copy className="h-3 w-3" />
+            Already imported
+          </span>
+        )}
+        {entry && (
+          <span className="inline-flex shrink-0 items-center gap-1.5 text-xs" title={entry.error}>
+            {STATUS_ICONS[entry.status]}
+            {entry.status === 'done' && entry.postId ? (
+              <Link to={`/dashboard/edit/${entry.postId}`} className="font-medium text-primary hover:underline">
+                Open draft
+              </Link>
+            ) : entry.status === 'failed' ? (
+              <span className="text-destructive">Failed</span>
+            ) : entry.status === 'waiting' ? (
+              <span className="text-muted-foreground">Waiting for rate limit</span>
+            ) : null}
+          </span>
+        )}
+      </div>
+      {hasChildren && isOpen && (
+        <ul>
+          {node.children.map((child) => (
+            <UrlTreeItem
+              key={child.key}
+              node={child}
+              depth={depth + 1}
+              selected={selected}
+              onToggle={onToggle}
+              collapsed={collapsed}
+              onToggleCollapsed={onToggleCollapsed}
+              queue={queue}
+              existingUrls={existingUrls}
+              disabled={disabled}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function SitemapPicker() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [domain, setDomain] = useState('');
+  const [filter, setFilter] = useState('');
+  const [postsOnly, setPostsOnly] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [queue, setQueue] = useState<Record<string, QueueEntry>>({});
+
+  const { data: existingUrls } = useQuery({
+    queryKey: ['user-canonical-urls', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('posts')
+        .select('canonical_url')
+        .eq('author_id', user!.id)
+        .not('canonical_url', 'is', null);
+      if (error) throw error;
+      return new Set(data.map((post) => post.canonical_url as string));
+    },
+    enabled: !!user,
+  });
+
+  const mapMutation = useMutation({
+    mutationFn: async (target: string) => {
+      const result = await firecrawlApi.map(normalizeUrl(target), { limit: MAP_LIMIT });
+      if (!result.success) throw new Error(result.error || 'Could not map that site');
+      const links = (result as { links?: string[] }).links ?? [];
+      return Array.from(new Set(links));
+    },
+    onSuccess: () => {
+      setSelected(new Set());
+      setCollapsed(new Set());
+      setQueue({});
+    },
+    onError: (error) => {
+      console.error('Error mapping site', error);
+      toast.error(error instanceof Error ? error.message : 'Could not map that site');
+    },
+  });
+
+  const links = mapMutation.data;
+
+  const visibleUrls = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return (links ?? []).filter(
+      (url) => (!postsOnly || isLikelyPost(url)) && (!query || url.toLowerCase().includes(query)),
+    );
+  }, [links, filter, postsOnly]);
+
+  const tree = useMemo(() => buildUrlTree(visibleUrls), [visibleUrls]);
+
+  const selectedUrls = visibleUrls.filter((url) => selected.has(url));
+
+  const toggleUrls = (urls: string[], checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      urls.forEach((url) => (checked ? next.add(url) : next.delete(url)));
+      return next;
+    });
+  };
+
+  const toggleCollapsed = (key: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const setEntry = (url: string, entry: QueueEntry) => setQueue((prev) => ({ ...prev, [url]: entry }));
+
+  const importMutation = useMutation({
+    mutationFn: async (urls: string[]) => {
+      setQueue((prev) => ({
+        ...prev,
+        ...Object.fromEntries(urls.map((url) => [url, { status: 'queued' as const }])),
+      }));
+
+      let imported = 0;
+      // One at a time so slugs stay unique. Scrapes count against the writer's per-minute
+      // limit, so a refused page waits out the limit and is tried again
+      for (const [index, url] of urls.entries()) {
+        setEntry(url, { status: 'scraping' });
+        try {
+          let post: ImportedPost | null = null;
+          while (!post) {
+            try {
+              post = await importPostFromUrl(url);
+            } catch (error) {
+              if (!(error instanceof RateLimitedError) || error.retryAfter > MAX_RATE_LIMIT_WAIT_SECONDS) throw error;
+              setEntry(url, { status: 'waiting', error: error.message });
+              await sleep(error.retryAfter * 1000);
+              setEntry(url, { status: 'scraping' });
+            }
+          }
+          const postId = await createImportedDraft(user!.id, post);
+          setEntry(url, { status: 'done', postId });
+          imported += 1;
+        } catch (error) {
+          console.error('Error importing mapped page', url, error);
+          const message = error instanceof Error ? error.message : 'Import failed';
+          setEntry(url, { status: 'failed', error: message });
+
+          // The daily quota won't clear while we wait, so the rest would only fail the same way
+          if (error instanceof RateLimitedError) {
+            urls.slice(index + 1).forEach((rest) => setEntry(rest, { status: 'failed', error: message }));
+            break;
+          }
+        }
+      }
+
+      return { imported, failed: urls.length - imported };
+    },
+    onSuccess: ({ imported, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['user-canonical-urls'] });
+      queryClient.invalidateQueries({ queryKey: ['user-post-slugs'] });
+      queryClient.invalidateQueries({ queryKey: ['user-posts'] });
+      setSelected(new Set());
+      if (failed) toast.error(`Imported ${imported} drafts, ${failed} failed`);
+      else toast.success(`Imported ${imported} ${imported === 1 ? 'draft' : 'drafts'}`);
+    },
+  });
+
+  const queueEntries = Object.values(queue);
+  const settledCount = queueEntries.filter((entry) => entry.status === 'done' || entry.status === 'failed').length;
+  const isImporting = importMutation.isPending;
+
+  return (
+    <Card className="border-border/60 shadow-sm">
+      <CardHeader>
+        <CardTitle className="font-display text-lg">Pick pages from your sitemap</CardTitle>
+        <CardDescription>
+          We list every page we can find on your site. Choose the ones worth keeping and each becomes a draft.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (domain.trim()) mapMutation.mutate(domain);
+          }}
+          className="flex flex-col gap-3 sm:flex-row"
+        >
+          <Input
+            type="text"
+            inputMode="url"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            placeholder="yourname.substack.com"
+            className="text-sm sm:flex-1"
+          />
+          <Button
+            type="submit"
+            disabled={!domain.trim() || mapMutation.isPending || isImporting}
+            className="rounded-xl"
+          >
+            {mapMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <MapIcon className="mr-2 h-4 w-4" />}
+            Find pages
+          </Button>
+        </form>
+
+        {links && (
+          <div className="space-y-4">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+              <div className="relative sm:flex-1">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Filter URLs, e.g. /2021/"
+                  className="pl-9 text-sm"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="sitemap-posts-only" checked={postsOnly} onCheckedChange={setPostsOnly} />
+                <Label htmlFor="sitemap-posts-only" className="text-sm font-normal text-muted-foreground">
+                  Hide tag, archive and asset pages
+                </Label>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-muted-foreground">
+                {selectedUrls.length} of {visibleUrls.length} pages selected
+                {links.length !== visibleUrls.length && ` · ${links.length - visibleUrls.length} hidden by filters`}
+              </p>
+              <Button
+                size="sm"
+                className="rounded-full"
+                onClick={() => importMutation.mutate(selectedUrls)}
+                disabled={!selectedUrls.length || isImporting}
+              >
+                {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {selectedUrls.length || ''} as drafts
+              </Button>
+            </div>
+
+            {queueEntries.length > 0 && (
+              <div className="space-y-1.5">
+                <Progress value={(settledCount / queueEntries.length) * 100} />
+                <p className="text-xs text-muted-foreground">
+                  {settledCount} of {queueEntries.length} pages processed
+                </p>
+              </div>
+            )}
+
+            {tree.length > 0 ? (
+              <div className="max-h-[32rem] overflow-y-auto rounded-xl border border-border/60">
+                <ul className="py-1">
+                  {tree.map((node) => (
+                    <UrlTreeItem
+                      key={node.key}
+                      node={node}
+                      depth={0}
+                      selected={selected}
+                      onToggle={toggleUrls}
+                      collapsed={filter.trim() ? new Set() : collapsed}
+                      onToggleCollapsed={toggleCollapsed}
+                      queue={queue}
+                      existingUrls={existingUrls ?? new Set()}
+                      disabled={isImporting}
+                    />
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                {links.length ? 'No pages match these filters.' : 'We could not find any pages on that site.'}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
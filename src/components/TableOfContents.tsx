@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { ListTree } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import type { TocHeading } from '@/hooks/use-table-of-contents';
+import { cn } from '@/lib/utils';
+
+interface TableOfContentsProps {
+  headings: TocHeading[];
+  activeId: string | null;
+}
+
+// Short posts don't need an outline
+const MIN_HEADINGS = 3;
+
+function TocList({
+  headings,
+  activeId,
+  onNavigate,
+}: TableOfContentsProps & { onNavigate: (id: string) => void }) {
+  return (
+    <ul className="space-y-1 border-l border-border/60 text-sm">
+      {headings.map((heading) => (
+        <li key={heading.id}>
+          <a
+            href={`#${heading.id}`}
+            onClick={(e) => {
+              e.preventDefault();
+              onNavigate(heading.id);
+            }}
+            aria-current={heading.id === activeId ? 'location' : undefined}
+            className={cn(
+              '-ml-px block border-l py-1 leading-snug transition-colors',
+              heading.level === 3 ? 'pl-6' : 'pl-3',
+              heading.id === activeId
+                ? 'border-primary font-medium text-foreground'
+                : 'border-transparent text-muted-foreground hover:text-foreground',
+            )}
+          >
+            {heading.text}
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function TableOfContents({ headings, activeId }: TableOfContentsProps) {
+  const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+
+  if (headings.length < MIN_HEADINGS) return null;
+
+  const scrollTo = (id: string) => {
+    document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    window.history.replaceState(null, '', `#${id}`);
+  };
+
+  const navigateFromDrawer = (id: string) => {
+    setIsDrawerOpen(false);
+    // Let the drawer finish closing first; it locks page scrolling while open
+    setTimeout(() => scrollTo(id), 300);
+  };
+
+  return (
+    <>
+      {/* Sits in the gutter beside the article on wide screens */}
+      <aside className="absolute inset-y-0 left-full ml-12 hidden w-56 xl:block">
+        <nav aria-label="Table of contents" className="sticky top-24 max-h-[calc(100vh-8rem)] space-y-3 overflow-y-auto">
+          <p className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground">On this page</p>
+          <TocList headings={headings} activeId={activeId} onNavigate={scrollTo} />
+        </nav>
+      </aside>
+
+      <div className="fixed bottom-6 right-4 z-30 xl:hidden">
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setIsDrawerOpen(true)}
+          className="gap-2 rounded-full shadow-lg"
+        >
+          <ListTree className="h-4 w-4" />
+          Contents
+        </Button>
+      </div>
+
+      <Drawer open={isDrawerOpen} onOpenChange={setIsDrawerOpen} shouldScaleBackground={false}>
+        <DrawerContent>
+          <DrawerHeader className="text-left">
+            <DrawerTitle className="font-display">On this page</DrawerTitle>
+          </DrawerHeader>
+          <nav aria-label="Table of contents" className="max-h-[60vh] overflow-y-auto px-4 pb-8">
+            <TocList headings={headings} activeId={activeId} onNavigate={navigateFromDrawer} />
+          </nav>
+        </DrawerContent>
+      </Drawer>
+    </>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { X, Zap, ArrowRight, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Link } from "react-router-dom";
+import { getPostPath } from "@/lib/slug";
 
 interface WelcomeBannerProps {
   gettingStartedSlug?: string;
@@ -66,7 +67,7 @@ export function WelcomeBanner({ gettingStartedSlug }: WelcomeBannerProps) {
         <div className="flex items-center gap-3 sm:shrink-0">
           {gettingStartedSlug ? (
             <Button asChild size="lg" className="rounded-xl gap-2 shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all">
-              <Link to={`/post/${gettingStartedSlug}`}>
+              <Link to={getPostPath(gettingStartedSlug)}>
                 Let's go
                 <ArrowRight className="h-4 w-4" />
               </Link>
@@ -3,10 +3,16 @@ import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
+import type { Enums } from '@/integrations/supabase/types';
+
+export type AppRole = Enums<'app_role'>;
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  roles: AppRole[];
+  rolesLoading: boolean;
+  hasRole: (role: AppRole) => boolean;
   signUp: (email: string, password: string, displayName?: string) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
@@ -19,7 +25,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [rolesUserId, setRolesUserId] = useState<string | null>(null);
   const navigate = useNavigate();
+  const userId = user?.id ?? null;
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -41,6 +50,38 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Roles are fetched once per signed-in user and kept for the session; RLS
+  // remains the real gate, this only decides what the client renders
+  useEffect(() => {
+    if (!userId) {
+      setRoles([]);
+      setRolesUserId(null);
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error('Error loading roles', error);
+        setRoles(data?.map(({ role }) => role) ?? []);
+        setRolesUserId(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const rolesLoading = !!userId && rolesUserId !== userId;
+
+  // Admins can do everything moderators can, matching can_moderate() in the database
+  const hasRole = (role: AppRole) =>
+    roles.includes(role) || (role === 'moderator' && roles.includes('admin'));
+
   const signUp = async (email: string, password: string, displayName?: string) => {
     try {
       const redirectUrl = `${window.location.origin}/`;
@@ -105,7 +146,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, signUp, signIn, signOut, loading }}>
+    <AuthContext.Provider value={{ user, session, roles, rolesLoading, hasRole, signUp, signIn, signOut, loading }}>
       {children}
     </AuthContext.Provider>
   );
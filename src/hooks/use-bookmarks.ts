@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+/** The signed-in reader's saved post ids, with an optimistic toggle */
+export function useBookmarks() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['bookmarks', user?.id];
+
+  const { data: bookmarkedIds } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase.from('bookmarks').select('post_id').eq('user_id', user!.id);
+      if (error) throw error;
+      return data.map((bookmark) => bookmark.post_id);
+    },
+    enabled: !!user,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ postId, bookmarked }: { postId: string; bookmarked: boolean }) => {
+      const { error } = bookmarked
+        ? await supabase.from('bookmarks').delete().eq('user_id', user!.id).eq('post_id', postId)
+        : await supabase.from('bookmarks').insert({ user_id: user!.id, post_id: postId });
+      if (error) throw error;
+    },
+    onMutate: async ({ postId, bookmarked }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<string[]>(queryKey);
+      queryClient.setQueryData<string[]>(queryKey, (ids = []) =>
+        bookmarked ? ids.filter((id) => id !== postId) : [...ids, postId],
+      );
+      return { previous };
+    },
+    onError: (error, { bookmarked }, context) => {
+      console.error('Error updating bookmark', error);
+      queryClient.setQueryData(queryKey, context?.previous);
+      toast({
+        title: bookmarked ? 'Failed to remove bookmark' : 'Failed to save post',
+        variant: 'destructive',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['bookmarks'] });
+      queryClient.invalidateQueries({ queryKey: ['reading-list'] });
+    },
+  });
+
+  const isBookmarked = (postId: string) => !!bookmarkedIds?.includes(postId);
+
+  const toggleBookmark = (postId: string) =>
+    toggleMutation.mutate({ postId, bookmarked: isBookmarked(postId) });
+
+  return { isBookmarked, toggleBookmark };
+}
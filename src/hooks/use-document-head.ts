@@ -0,0 +1,89 @@
+import { useEffect } from 'react';
+
+export type DocumentHead = {
+  title: string;
+  description?: string | null;
+  /** Where search engines should send credit, e.g. the original of a repost */
+  canonicalUrl?: string | null;
+  image?: string | null;
+  type?: 'website' | 'article' | 'profile';
+};
+
+type MetaKey = { attribute: 'name' | 'property'; key: string };
+
+const upsertMeta = ({ attribute, key }: MetaKey, content: string) => {
+  let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  const previous = element?.content ?? null;
+  if (!element) {
+    element = document.createElement('meta');
+    element.setAttribute(attribute, key);
+    document.head.appendChild(element);
+  }
+  element.content = content;
+
+  // Put back whatever index.html had, or drop the tag if it was ours
+  return () => {
+    if (previous === null) element!.remove();
+    else element!.content = previous;
+  };
+};
+
+const upsertCanonical = (href: string) => {
+  let element = document.head.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+  const previous = element?.href ?? null;
+  if (!element) {
+    element = document.createElement('link');
+    element.rel = 'canonical';
+    document.head.appendChild(element);
+  }
+  element.href = href;
+
+  return () => {
+    if (previous === null) element!.remove();
+    else element!.href = previous;
+  };
+};
+
+/**
+ * Points the document title, description, canonical link and Open Graph / Twitter
+ * tags at the current page, restoring the site-wide defaults on the way out.
+ * Crawlers that don't run JavaScript get the same tags from the og edge function.
+ */
+export function useDocumentHead(head: DocumentHead | null) {
+  const { title, description, canonicalUrl, image, type = 'website' } = head ?? { title: '' };
+  const isReady = !!head;
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    const previousTitle = document.title;
+    document.title = title;
+
+    const url = window.location.origin + window.location.pathname;
+    const restore = [
+      upsertMeta({ attribute: 'property', key: 'og:title' }, title),
+      upsertMeta({ attribute: 'name', key: 'twitter:title' }, title),
+      upsertMeta({ attribute: 'property', key: 'og:type' }, type),
+      upsertMeta({ attribute: 'property', key: 'og:url' }, url),
+      upsertCanonical(canonicalUrl || url),
+    ];
+    if (description) {
+      restore.push(
+        upsertMeta({ attribute: 'name', key: 'description' }, description),
+        upsertMeta({ attribute: 'property', key: 'og:description' }, description),
+        upsertMeta({ attribute: 'name', key: 'twitter:description' }, description),
+      );
+    }
+    if (image) {
+      restore.push(
+        upsertMeta({ attribute: 'property', key: 'og:image' }, image),
+        upsertMeta({ attribute: 'name', key: 'twitter:image' }, image),
+      );
+    }
+
+    return () => {
+      document.title = previousTitle;
+      restore.forEach((undo) => undo());
+    };
+  }, [isReady, title, description, canonicalUrl, image, type]);
+}
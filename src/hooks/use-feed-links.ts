@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { FEED_FORMATS, getFeedUrl, type FeedScope } from '@/lib/feeds';
+
+/**
+ * Advertises a feed in every format through <link rel="alternate"> tags in the
+ * document head, so browsers and feed readers can discover it from the page.
+ */
+export function useFeedLinks(scope: FeedScope | null, title: string) {
+  const scopeKey = JSON.stringify(scope);
+
+  useEffect(() => {
+    const parsed = JSON.parse(scopeKey) as FeedScope | null;
+    if (!parsed) return;
+
+    const links = FEED_FORMATS.map(({ format, label, type }) => {
+      const link = document.createElement('link');
+      link.rel = 'alternate';
+      link.type = type;
+      link.title = `${title} (${label})`;
+      link.href = getFeedUrl(parsed, format);
+      document.head.appendChild(link);
+      return link;
+    });
+
+    return () => links.forEach((link) => link.remove());
+  }, [scopeKey, title]);
+}
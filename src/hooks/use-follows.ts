@@ -0,0 +1,75 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+/** Ids of the authors the signed-in reader follows, with an optimistic toggle */
+export function useFollowing() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['following', user?.id];
+
+  const { data: followingIds, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase.from('follows').select('following_id').eq('follower_id', user!.id);
+      if (error) throw error;
+      return data.map((follow) => follow.following_id);
+    },
+    enabled: !!user,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ authorId, following }: { authorId: string; following: boolean }) => {
+      const { error } = following
+        ? await supabase.from('follows').delete().eq('follower_id', user!.id).eq('following_id', authorId)
+        : await supabase.from('follows').insert({ follower_id: user!.id, following_id: authorId });
+      if (error) throw error;
+    },
+    onMutate: async ({ authorId, following }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<string[]>(queryKey);
+      queryClient.setQueryData<string[]>(queryKey, (ids = []) =>
+        following ? ids.filter((id) => id !== authorId) : [...ids, authorId],
+      );
+      return { previous };
+    },
+    onError: (error, { following }, context) => {
+      console.error('Error updating follow', error);
+      queryClient.setQueryData(queryKey, context?.previous);
+      toast({
+        title: following ? 'Failed to unfollow' : 'Failed to follow',
+        variant: 'destructive',
+      });
+    },
+    onSettled: (_, __, { authorId }) => {
+      queryClient.invalidateQueries({ queryKey: ['following'] });
+      queryClient.invalidateQueries({ queryKey: ['follow-counts', authorId] });
+      queryClient.invalidateQueries({ queryKey: ['follow-counts', user?.id] });
+    },
+  });
+
+  const isFollowing = (authorId: string) => !!followingIds?.includes(authorId);
+
+  const toggleFollow = (authorId: string) =>
+    toggleMutation.mutate({ authorId, following: isFollowing(authorId) });
+
+  return { followingIds: followingIds ?? [], isLoading, isFollowing, toggleFollow };
+}
+
+/** Follower and following totals for a profile */
+export function useFollowCounts(profileId: string | undefined) {
+  return useQuery({
+    queryKey: ['follow-counts', profileId],
+    queryFn: async () => {
+      const [followers, following] = await Promise.all([
+        supabase.from('follows').select('*', { count: 'exact', head: true }).eq('following_id', profileId!),
+        supabase.from('follows').select('*', { count: 'exact', head: true }).eq('follower_id', profileId!),
+      ]);
+      if (followers.error) throw followers.error;
+      if (following.error) throw following.error;
+      return { followers: followers.count ?? 0, following: following.count ?? 0 };
+    },
+    enabled: !!profileId,
+  });
+}
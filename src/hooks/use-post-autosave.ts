@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type PostDraftValues = {
+  title?: string;
+  excerpt?: string;
+  content_markdown?: string;
+  tags?: string;
+  category?: string;
+};
+
+export type LocalPostDraft = {
+  values: PostDraftValues;
+  savedAt: string;
+};
+
+export type AutosaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'saved-locally' | 'conflict' | 'error';
+
+/** What the server-side persist callback did with a draft. */
+export type PersistResult = 'saved' | 'skipped' | 'conflict';
+
+const STORAGE_PREFIX = 'quillscroll_post_draft_';
+
+export const getDraftStorageKey = (postId?: string) => `${STORAGE_PREFIX}${postId ?? 'new'}`;
+
+// Fixed key order so drafts built from different sources compare equal
+export const serializeDraft = (values: PostDraftValues) =>
+  JSON.stringify({
+    title: values.title ?? '',
+    excerpt: values.excerpt ?? '',
+    content_markdown: values.content_markdown ?? '',
+    tags: values.tags ?? '',
+    category: values.category ?? '',
+  });
+
+export function readLocalDraft(storageKey: string): LocalPostDraft | null {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as LocalPostDraft;
+    return parsed?.values && parsed.savedAt ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeLocalDraft(storageKey: string, values: PostDraftValues) {
+  try {
+    const draft: LocalPostDraft = { values, savedAt: new Date().toISOString() };
+    localStorage.setItem(storageKey, JSON.stringify(draft));
+  } catch (error) {
+    console.error('Error writing local draft', error);
+  }
+}
+
+export function clearLocalDraft(storageKey: string) {
+  localStorage.removeItem(storageKey);
+}
+
+interface UsePostAutosaveOptions {
+  storageKey: string;
+  values: PostDraftValues;
+  /** Autosave stays idle until the editor has loaded its initial values. */
+  enabled: boolean;
+  /** Persists the draft to the server. Omit to only keep a local copy. */
+  persist?: (values: PostDraftValues) => Promise<PersistResult>;
+  delay?: number;
+}
+
+export function usePostAutosave({ storageKey, values, enabled, persist, delay = 1500 }: UsePostAutosaveOptions) {
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+
+  const snapshot = serializeDraft(values);
+  const syncedSnapshotRef = useRef<string | null>(null);
+  const latestSnapshotRef = useRef(snapshot);
+  const persistRef = useRef(persist);
+  // Saves run one after another so each one sees the version the previous one produced
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  latestSnapshotRef.current = snapshot;
+  persistRef.current = persist;
+
+  const run = useCallback(
+    (draftSnapshot: string) => {
+      queueRef.current = queueRef.current.then(async () => {
+        const draft = JSON.parse(draftSnapshot) as PostDraftValues;
+        writeLocalDraft(storageKey, draft);
+
+        if (!persistRef.current) {
+          syncedSnapshotRef.current = draftSnapshot;
+          setStatus('saved-locally');
+          setLastSavedAt(new Date());
+          return;
+        }
+
+        setStatus('saving');
+        try {
+          const result = await persistRef.current(draft);
+          if (result === 'conflict') {
+            setStatus('conflict');
+            return;
+          }
+          syncedSnapshotRef.current = draftSnapshot;
+          setStatus(result === 'saved' ? 'saved' : 'saved-locally');
+          setLastSavedAt(new Date());
+        } catch (error) {
+          console.error('Autosave failed', error);
+          setStatus('error');
+        }
+      });
+      return queueRef.current;
+    },
+    [storageKey],
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // The first snapshot after loading is what the server already has
+    if (syncedSnapshotRef.current === null) {
+      syncedSnapshotRef.current = snapshot;
+      return;
+    }
+    if (snapshot === syncedSnapshotRef.current) return;
+
+    setStatus('pending');
+    const timeout = window.setTimeout(() => run(snapshot), delay);
+    return () => window.clearTimeout(timeout);
+  }, [snapshot, enabled, delay, run]);
+
+  // Closing the tab before the debounce fires still keeps a local copy
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleBeforeUnload = () => {
+      if (latestSnapshotRef.current !== syncedSnapshotRef.current) {
+        writeLocalDraft(storageKey, JSON.parse(latestSnapshotRef.current));
+      }
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [enabled, storageKey]);
+
+  /** Records values as already in sync with the server, e.g. after adopting the server copy. */
+  const markSynced = useCallback((synced: PostDraftValues) => {
+    syncedSnapshotRef.current = serializeDraft(synced);
+    setStatus('saved');
+    setLastSavedAt(new Date());
+  }, []);
+
+  /** Persists the current values right away, skipping the debounce. */
+  const saveNow = useCallback(() => run(latestSnapshotRef.current), [run]);
+
+  /** Resolves once any save already in flight has finished. */
+  const waitForPendingSave = useCallback(() => queueRef.current, []);
+
+  return { status, lastSavedAt, markSynced, saveNow, waitForPendingSave };
+}
@@ -0,0 +1,115 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+/** Kept in sync with the post_reactions_reaction_check constraint */
+export const REACTIONS = [
+  { type: 'like', emoji: '👍', label: 'Like' },
+  { type: 'clap', emoji: '👏', label: 'Clap' },
+  { type: 'love', emoji: '❤️', label: 'Love' },
+  { type: 'insightful', emoji: '💡', label: 'Insightful' },
+] as const;
+
+export type ReactionType = (typeof REACTIONS)[number]['type'];
+
+export type ReactionCounts = Partial<Record<ReactionType, number>>;
+
+type PostReactions = {
+  counts: ReactionCounts;
+  /** Reactions the signed-in reader has left on the post */
+  mine: ReactionType[];
+};
+
+async function fetchReactionCounts(postIds: string[]) {
+  const { data, error } = await supabase.rpc('post_reaction_counts', { _post_ids: postIds });
+  if (error) throw error;
+
+  const counts: Record<string, ReactionCounts> = {};
+  data.forEach((row) => {
+    counts[row.post_id] = { ...counts[row.post_id], [row.reaction]: row.count };
+  });
+  return counts;
+}
+
+export const getReactionTotal = (counts: ReactionCounts | undefined) =>
+  Object.values(counts ?? {}).reduce((total, count) => total + count, 0);
+
+/** Reaction totals for a page of feed posts, keyed by post id */
+export function useReactionCounts(postIds: string[]) {
+  return useQuery({
+    queryKey: ['reaction-counts', postIds],
+    queryFn: () => fetchReactionCounts(postIds),
+    enabled: postIds.length > 0,
+  });
+}
+
+/** Counts and the reader's own reactions for one post, with an optimistic toggle */
+export function usePostReactions(postId: string | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['post-reactions', postId, user?.id];
+
+  const { data } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<PostReactions> => {
+      const [counts, mine] = await Promise.all([
+        fetchReactionCounts([postId!]),
+        user
+          ? supabase.from('post_reactions').select('reaction').eq('post_id', postId!).eq('user_id', user.id)
+          : null,
+      ]);
+      if (mine?.error) throw mine.error;
+      return {
+        counts: counts[postId!] ?? {},
+        mine: (mine?.data ?? []).map((row) => row.reaction as ReactionType),
+      };
+    },
+    enabled: !!postId,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ reaction, reacted }: { reaction: ReactionType; reacted: boolean }) => {
+      const { error } = reacted
+        ? await supabase
+            .from('post_reactions')
+            .delete()
+            .eq('post_id', postId!)
+            .eq('user_id', user!.id)
+            .eq('reaction', reaction)
+        : await supabase.from('post_reactions').insert({ post_id: postId!, user_id: user!.id, reaction });
+      if (error) throw error;
+    },
+    onMutate: async ({ reaction, reacted }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<PostReactions>(queryKey);
+      queryClient.setQueryData<PostReactions>(queryKey, (current = { counts: {}, mine: [] }) => ({
+        counts: {
+          ...current.counts,
+          [reaction]: Math.max((current.counts[reaction] ?? 0) + (reacted ? -1 : 1), 0),
+        },
+        mine: reacted ? current.mine.filter((type) => type !== reaction) : [...current.mine, reaction],
+      }));
+      return { previous };
+    },
+    onError: (error, _, context) => {
+      console.error('Error updating reaction', error);
+      queryClient.setQueryData(queryKey, context?.previous);
+      toast({
+        title: 'Failed to update reaction',
+        variant: 'destructive',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['post-reactions', postId] });
+      queryClient.invalidateQueries({ queryKey: ['reaction-counts'] });
+    },
+  });
+
+  const hasReacted = (reaction: ReactionType) => !!data?.mine.includes(reaction);
+
+  const toggleReaction = (reaction: ReactionType) =>
+    toggleMutation.mutate({ reaction, reacted: hasReacted(reaction) });
+
+  return { counts: data?.counts ?? {}, hasReacted, toggleReaction };
+}
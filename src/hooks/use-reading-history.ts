@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type SavedReadingProgress = {
+  /** Where the reader last was, as a percentage of the post */
+  progress: number;
+  /** Stays true once the reader reached the end, even if they scroll back up */
+  completed: boolean;
+  updatedAt: string;
+};
+
+export type ReadingHistory = Record<string, SavedReadingProgress>;
+
+/** Past this point the reader has effectively finished the post */
+export const READ_THRESHOLD = 95;
+
+const STORAGE_KEY = 'quillscroll_reading_progress';
+const MAX_LOCAL_ENTRIES = 200;
+const MAX_SYNCED_ENTRIES = 1000;
+const SAVE_DELAY_MS = 2000;
+
+function readLocalHistory(): ReadingHistory {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as ReadingHistory) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeLocalHistory(history: ReadingHistory) {
+  // Keep only the most recent posts so guest storage doesn't grow forever
+  const entries = Object.entries(history)
+    .sort(([, a], [, b]) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_LOCAL_ENTRIES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (error) {
+    console.error('Error writing reading progress', error);
+  }
+}
+
+/** Saved reading progress keyed by post id, from the database when signed in and local storage otherwise */
+export function useReadingHistory(): ReadingHistory {
+  const { user } = useAuth();
+  const [localHistory] = useState(readLocalHistory);
+
+  const { data: syncedHistory } = useQuery({
+    queryKey: ['reading-progress', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('reading_progress')
+        .select('post_id, progress, completed, updated_at')
+        .eq('user_id', user!.id)
+        .order('updated_at', { ascending: false })
+        .limit(MAX_SYNCED_ENTRIES);
+      if (error) throw error;
+      return Object.fromEntries(
+        data.map((row) => [
+          row.post_id,
+          { progress: row.progress, completed: row.completed, updatedAt: row.updated_at },
+        ]),
+      ) as ReadingHistory;
+    },
+    enabled: !!user,
+  });
+
+  return user ? (syncedHistory ?? {}) : localHistory;
+}
+
+/**
+ * Saves the reader's position in a post a moment after they stop scrolling, and
+ * once more when they leave the page so the last stretch isn't lost.
+ */
+export function useSaveReadingProgress(postId: string | undefined, progress: number) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const pendingRef = useRef<number | null>(null);
+
+  const persist = useCallback(
+    async (id: string, value: number) => {
+      const updatedAt = new Date().toISOString();
+
+      if (!user) {
+        const history = readLocalHistory();
+        const completed = !!history[id]?.completed || value >= READ_THRESHOLD;
+        writeLocalHistory({ ...history, [id]: { progress: value, completed, updatedAt } });
+        return;
+      }
+
+      const queryKey = ['reading-progress', user.id];
+      const history = queryClient.getQueryData<ReadingHistory>(queryKey);
+      const completed = !!history?.[id]?.completed || value >= READ_THRESHOLD;
+
+      const { error } = await supabase
+        .from('reading_progress')
+        .upsert({ user_id: user.id, post_id: id, progress: value, completed }, { onConflict: 'user_id,post_id' });
+      if (error) {
+        console.error('Error saving reading progress', error);
+        return;
+      }
+
+      queryClient.setQueryData<ReadingHistory>(queryKey, (prev) => ({
+        ...prev,
+        [id]: { progress: value, completed, updatedAt },
+      }));
+    },
+    [user, queryClient],
+  );
+
+  const flush = useCallback(() => {
+    if (!postId || pendingRef.current === null) return;
+    const value = pendingRef.current;
+    pendingRef.current = null;
+    void persist(postId, value);
+  }, [postId, persist]);
+
+  // The top of the page is where every visit starts, so it's not worth recording
+  useEffect(() => {
+    if (!postId || progress <= 0) return;
+    pendingRef.current = progress;
+    const timeout = setTimeout(flush, SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [postId, progress, flush]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+}
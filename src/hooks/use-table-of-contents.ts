@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+
+export interface TocHeading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+// Just below the scroll-mt on rendered headings, so the heading a TOC jump lands on
+// counts as current even with sub-pixel rounding
+const ACTIVE_OFFSET_PX = 100;
+
+const headingText = (heading: HTMLElement) =>
+  Array.from(heading.childNodes)
+    .filter((node) => !(node instanceof HTMLElement && node.classList.contains('heading-anchor')))
+    .map((node) => node.textContent ?? '')
+    .join('')
+    .trim();
+
+/** Reads h2/h3 headings out of the rendered post and tracks which one is being read */
+export function useTableOfContents(targetId: string, content: string | undefined) {
+  const [headings, setHeadings] = useState<TocHeading[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const target = document.getElementById(targetId);
+    if (!target) {
+      setHeadings([]);
+      return;
+    }
+
+    const found = Array.from(target.querySelectorAll<HTMLElement>('h2[id], h3[id]'))
+      // Footnotes get their own generated heading, which isn't part of the post's outline
+      .filter((heading) => !heading.closest('[data-footnotes]'))
+      .map((heading) => ({ id: heading.id, text: headingText(heading), level: heading.tagName === 'H2' ? 2 : 3 }));
+    setHeadings(found);
+  }, [targetId, content]);
+
+  useEffect(() => {
+    if (headings.length === 0) {
+      setActiveId(null);
+      return;
+    }
+
+    const updateActive = () => {
+      let current: string | null = null;
+      for (const heading of headings) {
+        const element = document.getElementById(heading.id);
+        if (element && element.getBoundingClientRect().top <= ACTIVE_OFFSET_PX) current = heading.id;
+      }
+      setActiveId(current ?? headings[0].id);
+    };
+
+    updateActive();
+    window.addEventListener('scroll', updateActive, { passive: true });
+    window.addEventListener('resize', updateActive);
+
+    return () => {
+      window.removeEventListener('scroll', updateActive);
+      window.removeEventListener('resize', updateActive);
+    };
+  }, [headings]);
+
+  return { headings, activeId };
+}
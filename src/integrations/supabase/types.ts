@@ -14,6 +14,262 @@ export type Database = {
   }
   public: {
     Tables: {
+      bookmarks: {
+        Row: {
+          created_at: string
+          id: string
+          list_id: string | null
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          list_id?: string | null
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          list_id?: string | null
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmarks_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "reading_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          is_hidden: boolean
+          parent_id: string | null
+          post_id: string
+          updated_at: string
+        }
+        Insert: {
+          author_id: string
+          body: string
+          created_at?: string
+          id?: string
+          is_hidden?: boolean
+          parent_id?: string | null
+          post_id: string
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          is_hidden?: boolean
+          parent_id?: string | null
+          post_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crawl_job_pages: {
+        Row: {
+          content_markdown: string
+          created_at: string
+          excerpt: string | null
+          id: string
+          job_id: string
+          post_id: string | null
+          status: string
+          title: string
+          url: string
+        }
+        Insert: {
+          content_markdown: string
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          job_id: string
+          post_id?: string | null
+          status?: string
+          title: string
+          url: string
+        }
+        Update: {
+          content_markdown?: string
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          job_id?: string
+          post_id?: string | null
+          status?: string
+          title?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crawl_job_pages_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "crawl_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "crawl_job_pages_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crawl_jobs: {
+        Row: {
+          completed: number
+          created_at: string
+          error_message: string | null
+          firecrawl_job_id: string
+          id: string
+          results_truncated: boolean
+          source_url: string
+          status: string
+          total: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed?: number
+          created_at?: string
+          error_message?: string | null
+          firecrawl_job_id: string
+          id?: string
+          results_truncated?: boolean
+          source_url: string
+          status?: string
+          total?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed?: number
+          created_at?: string
+          error_message?: string | null
+          firecrawl_job_id?: string
+          id?: string
+          results_truncated?: boolean
+          source_url?: string
+          status?: string
+          total?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crawl_jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       firecrawl_usage_logs: {
         Row: {
           created_at: string
@@ -50,16 +306,265 @@ export type Database = {
         }
         Relationships: []
       }
+      follows: {
+        Row: {
+          created_at: string
+          follower_id: string
+          following_id: string
+        }
+        Insert: {
+          created_at?: string
+          follower_id: string
+          following_id: string
+        }
+        Update: {
+          created_at?: string
+          follower_id?: string
+          following_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follows_follower_id_fkey"
+            columns: ["follower_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follows_following_id_fkey"
+            columns: ["following_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_actions: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          moderator_id: string | null
+          note: string | null
+          report_id: string | null
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          report_id?: string | null
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          report_id?: string | null
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_actions_moderator_id_fkey"
+            columns: ["moderator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_actions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "content_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_reactions: {
+        Row: {
+          created_at: string
+          id: string
+          post_id: string
+          reaction: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          post_id: string
+          reaction: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          post_id?: string
+          reaction?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_reactions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_revisions: {
+        Row: {
+          author_id: string
+          category: string | null
+          content_markdown: string
+          created_at: string
+          excerpt: string | null
+          id: string
+          post_id: string
+          tags: string[]
+          title: string
+        }
+        Insert: {
+          author_id: string
+          category?: string | null
+          content_markdown: string
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          post_id: string
+          tags?: string[]
+          title: string
+        }
+        Update: {
+          author_id?: string
+          category?: string | null
+          content_markdown?: string
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          post_id?: string
+          tags?: string[]
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_revisions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_revisions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_slug_history: {
+        Row: {
+          created_at: string
+          id: string
+          post_id: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          post_id: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          post_id?: string
+          slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_slug_history_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_sources: {
+        Row: {
+          created_at: string
+          fetched_via: string
+          id: string
+          post_id: string
+          site_name: string | null
+          title: string | null
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          fetched_via: string
+          id?: string
+          post_id: string
+          site_name?: string | null
+          title?: string | null
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          fetched_via?: string
+          id?: string
+          post_id?: string
+          site_name?: string | null
+          title?: string | null
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_sources_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       posts: {
         Row: {
           author_id: string
+          canonical_url: string | null
           category: string | null
           content_markdown: string
           created_at: string
           excerpt: string | null
           id: string
+          is_hidden: boolean
           is_published: boolean
+          meta_description: string | null
+          meta_title: string | null
+          og_image_url: string | null
           published_at: string | null
+          reading_time_minutes: number
+          scheduled_for: string | null
+          search_vector: unknown
           slug: string
           tags: string[]
           title: string
@@ -67,13 +572,21 @@ export type Database = {
         }
         Insert: {
           author_id: string
+          canonical_url?: string | null
           category?: string | null
           content_markdown: string
           created_at?: string
           excerpt?: string | null
           id?: string
+          is_hidden?: boolean
           is_published?: boolean
+          meta_description?: string | null
+          meta_title?: string | null
+          og_image_url?: string | null
           published_at?: string | null
+          reading_time_minutes?: never
+          scheduled_for?: string | null
+          search_vector?: never
           slug: string
           tags?: string[]
           title: string
@@ -81,13 +594,21 @@ export type Database = {
         }
         Update: {
           author_id?: string
+          canonical_url?: string | null
           category?: string | null
           content_markdown?: string
           created_at?: string
           excerpt?: string | null
           id?: string
+          is_hidden?: boolean
           is_published?: boolean
+          meta_description?: string | null
+          meta_title?: string | null
+          og_image_url?: string | null
           published_at?: string | null
+          reading_time_minutes?: never
+          scheduled_for?: string | null
+          search_vector?: never
           slug?: string
           tags?: string[]
           title?: string
@@ -142,6 +663,230 @@ export type Database = {
         }
         Relationships: []
       }
+      rate_limit_counters: {
+        Row: {
+          count: number
+          scope: string
+          user_id: string
+          window_kind: string
+          window_start: string
+        }
+        Insert: {
+          count?: number
+          scope: string
+          user_id: string
+          window_kind: string
+          window_start: string
+        }
+        Update: {
+          count?: number
+          scope?: string
+          user_id?: string
+          window_kind?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      rate_limit_tiers: {
+        Row: {
+          created_at: string
+          description: string | null
+          is_exempt: boolean
+          name: string
+          per_day: number
+          per_minute: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          is_exempt?: boolean
+          name: string
+          per_day: number
+          per_minute: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          is_exempt?: boolean
+          name?: string
+          per_day?: number
+          per_minute?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      reading_lists: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_lists_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reading_progress: {
+        Row: {
+          completed: boolean
+          post_id: string
+          progress: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed?: boolean
+          post_id: string
+          progress?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed?: boolean
+          post_id?: string
+          progress?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_progress_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reading_progress_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      topics: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          kind: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          kind: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          kind?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_bans: {
+        Row: {
+          banned_by: string | null
+          created_at: string
+          reason: string | null
+          user_id: string
+        }
+        Insert: {
+          banned_by?: string | null
+          created_at?: string
+          reason?: string | null
+          user_id: string
+        }
+        Update: {
+          banned_by?: string | null
+          created_at?: string
+          reason?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_bans_banned_by_fkey"
+            columns: ["banned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_bans_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_rate_limit_tiers: {
+        Row: {
+          created_at: string
+          tier: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          tier: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          tier?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_rate_limit_tiers_tier_fkey"
+            columns: ["tier"]
+            isOneToOne: false
+            referencedRelation: "rate_limit_tiers"
+            referencedColumns: ["name"]
+          },
+          {
+            foreignKeyName: "user_rate_limit_tiers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -168,6 +913,28 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_moderate: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      consume_rate_limit: {
+        Args: {
+          _scope?: string
+          _user_id: string
+        }
+        Returns: {
+          allowed: boolean
+          day_limit: number
+          day_remaining: number
+          limited_by: string
+          minute_limit: number
+          minute_remaining: number
+          retry_after: number
+          tier: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -175,6 +942,77 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_banned: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      moderate: {
+        Args: {
+          _action: string
+          _note?: string
+          _report_id?: string
+          _target_id: string
+          _target_type: string
+        }
+        Returns: string
+      }
+      post_facets: {
+        Args: {
+          _author_ids?: string[]
+        }
+        Returns: {
+          kind: string
+          post_count: number
+          value: string
+        }[]
+      }
+      post_reaction_counts: {
+        Args: {
+          _post_ids: string[]
+        }
+        Returns: {
+          count: number
+          post_id: string
+          reaction: string
+        }[]
+      }
+      search_posts: {
+        Args: {
+          _author_id?: string
+          _category?: string
+          _from?: string
+          _limit?: number
+          _offset?: number
+          _query: string
+          _tag?: string
+          _to?: string
+        }
+        Returns: {
+          author_avatar_url: string | null
+          author_id: string
+          author_name: string | null
+          category: string | null
+          excerpt: string | null
+          id: string
+          published_at: string | null
+          rank: number
+          slug: string
+          snippet: string | null
+          tags: string[]
+          title: string
+          title_highlight: string | null
+          total_count: number
+        }[]
+      }
+      unique_post_slug: {
+        Args: {
+          _base: string
+          _post_id?: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
@@ -1,11 +1,34 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 
 export type FirecrawlResponse<T = any> = {
   success: boolean;
   error?: string;
   data?: T;
+  /** Seconds to wait before trying again, set when the request was rate limited */
+  retryAfter?: number;
 };
 
+// A non-2xx reply still carries the function's JSON body, which says why it failed
+async function toErrorResponse(error: Error): Promise<FirecrawlResponse> {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body?.error) {
+        return {
+          success: false,
+          error: body.error,
+          retryAfter: typeof body.retryAfter === 'number' ? body.retryAfter : undefined,
+        };
+      }
+    } catch {
+      // Not JSON; fall through to the generic message
+    }
+  }
+  return { success: false, error: error.message };
+}
+
 type ScrapeOptions = {
   formats?: (
     | 'markdown'
@@ -22,7 +45,7 @@ type ScrapeOptions = {
   location?: { country?: string; languages?: string[] };
 };
 
-type SearchOptions = {
+export type SearchOptions = {
   limit?: number;
   lang?: string;
   country?: string;
@@ -30,6 +53,14 @@ type SearchOptions = {
   scrapeOptions?: { formats?: ('markdown' | 'html')[] };
 };
 
+export type SearchResult = {
+  url: string;
+  title?: string;
+  description?: string;
+  markdown?: string;
+  metadata?: { title?: string; ogSiteName?: string };
+};
+
 type MapOptions = {
   search?: string;
   limit?: number;
@@ -43,6 +74,8 @@ type CrawlOptions = {
   excludePaths?: string[];
 };
 
+export type CrawlJob = Tables<'crawl_jobs'>;
+
 export const firecrawlApi = {
   async scrape(url: string, options?: ScrapeOptions): Promise<FirecrawlResponse> {
     const { data, error } = await supabase.functions.invoke('firecrawl-scrape', {
@@ -50,7 +83,7 @@ export const firecrawlApi = {
     });
 
     if (error) {
-      return { success: false, error: error.message };
+      return toErrorResponse(error);
     }
     return data;
   },
@@ -61,7 +94,7 @@ export const firecrawlApi = {
     });
 
     if (error) {
-      return { success: false, error: error.message };
+      return toErrorResponse(error);
     }
     return data;
   },
@@ -72,7 +105,7 @@ export const firecrawlApi = {
     });
 
     if (error) {
-      return { success: false, error: error.message };
+      return toErrorResponse(error);
     }
     return data;
   },
@@ -83,7 +116,29 @@ export const firecrawlApi = {
     });
 
     if (error) {
-      return { success: false, error: error.message };
+      return toErrorResponse(error);
+    }
+    return data;
+  },
+
+  // Polls a crawl started with crawl(); pages are stored for review once it completes
+  async crawlStatus(jobId: string): Promise<FirecrawlResponse & { job?: CrawlJob }> {
+    const { data, error } = await supabase.functions.invoke('firecrawl-crawl-status', {
+      body: { jobId },
+    });
+
+    if (error) {
+      return toErrorResponse(error);
+    }
+    return data;
+  },
+
+  // Admin only: prunes usage logs older than 30 days, same as the scheduled run
+  async cleanupLogs(): Promise<FirecrawlResponse & { deletedCount?: number }> {
+    const { data, error } = await supabase.functions.invoke('cleanup-firecrawl-logs');
+
+    if (error) {
+      return toErrorResponse(error);
     }
     return data;
   },
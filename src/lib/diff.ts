@@ -0,0 +1,163 @@
+export type DiffRowType = 'equal' | 'added' | 'removed' | 'changed';
+
+export type DiffRow = {
+  type: DiffRowType;
+  left: string | null;
+  right: string | null;
+  leftNumber: number | null;
+  rightNumber: number | null;
+};
+
+type DiffOp = { type: 'equal' | 'added' | 'removed'; line: string };
+
+// The LCS table costs one cell per pair of lines; beyond this the changed middle of the
+// two documents is shown as a single replaced block instead of freezing the page
+const MAX_LCS_CELLS = 1_000_000;
+
+function diffOps(before: string[], after: string[]): DiffOp[] {
+  // Edits usually touch a small part of a post, so the unchanged start and end are
+  // matched directly and only what lies between them goes through the LCS table
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const prefix: DiffOp[] = before.slice(0, start).map((line) => ({ type: 'equal', line }));
+  const suffix: DiffOp[] = before.slice(before.length - end).map((line) => ({ type: 'equal', line }));
+  const middleBefore = before.slice(start, before.length - end);
+  const middleAfter = after.slice(start, after.length - end);
+
+  if (middleBefore.length * middleAfter.length > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...middleBefore.map((line): DiffOp => ({ type: 'removed', line })),
+      ...middleAfter.map((line): DiffOp => ({ type: 'added', line })),
+      ...suffix,
+    ];
+  }
+
+  return [...prefix, ...lcsOps(middleBefore, middleAfter), ...suffix];
+}
+
+function lcsOps(before: string[], after: string[]): DiffOp[] {
+  const rows = before.length;
+  const cols = after.length;
+  // lcs[i][j] = length of the longest common subsequence of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      ops.push({ type: 'equal', line: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', line: before[i++] });
+    } else {
+      ops.push({ type: 'added', line: after[j++] });
+    }
+  }
+  while (i < rows) ops.push({ type: 'removed', line: before[i++] });
+  while (j < cols) ops.push({ type: 'added', line: after[j++] });
+
+  return ops;
+}
+
+/**
+ * Line-based diff of two markdown documents, laid out for a side-by-side view.
+ * Runs of removed lines followed by added lines are paired up as "changed" rows.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const ops = diffOps(before.split('\n'), after.split('\n'));
+  const result: DiffRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let index = 0;
+
+  while (index < ops.length) {
+    if (ops[index].type === 'equal') {
+      result.push({
+        type: 'equal',
+        left: ops[index].line,
+        right: ops[index].line,
+        leftNumber: leftNumber++,
+        rightNumber: rightNumber++,
+      });
+      index++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index].type !== 'equal') {
+      if (ops[index].type === 'removed') removed.push(ops[index].line);
+      else added.push(ops[index].line);
+      index++;
+    }
+
+    const pairs = Math.max(removed.length, added.length);
+    for (let k = 0; k < pairs; k++) {
+      const left = k < removed.length ? removed[k] : null;
+      const right = k < added.length ? added[k] : null;
+      result.push({
+        type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added',
+        left,
+        right,
+        leftNumber: left !== null ? leftNumber++ : null,
+        rightNumber: right !== null ? rightNumber++ : null,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Two-way merge of a local and a server copy of the same document. Lines both
+ * sides agree on are kept as-is; every differing block is wrapped in
+ * git-style conflict markers so the author can resolve it by hand.
+ */
+export function mergeWithConflictMarkers(
+  local: string,
+  server: string,
+  labels: { local: string; server: string } = { local: 'Your changes', server: 'Server copy' },
+): string {
+  const rows = diffLines(server, local);
+  const output: string[] = [];
+  let index = 0;
+
+  while (index < rows.length) {
+    if (rows[index].type === 'equal') {
+      output.push(rows[index].left ?? '');
+      index++;
+      continue;
+    }
+
+    const serverLines: string[] = [];
+    const localLines: string[] = [];
+    while (index < rows.length && rows[index].type !== 'equal') {
+      if (rows[index].left !== null) serverLines.push(rows[index].left!);
+      if (rows[index].right !== null) localLines.push(rows[index].right!);
+      index++;
+    }
+
+    output.push(`<<<<<<< ${labels.local}`, ...localLines, '=======', ...serverLines, `>>>>>>> ${labels.server}`);
+  }
+
+  return output.join('\n');
+}
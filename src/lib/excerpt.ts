@@ -0,0 +1,2 @@
+// Shared with the edge functions so imported and crawled posts get the same excerpts
+export { buildExcerpt } from '../../supabase/functions/_shared/excerpt.ts';
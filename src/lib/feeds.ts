@@ -0,0 +1,26 @@
+const FEED_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/feed`;
+
+export type TopicKind = 'tag' | 'category';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+/** Which posts a feed covers; an empty scope is the whole site */
+export type FeedScope = { tag: string } | { category: string } | { author: string } | Record<string, never>;
+
+export const FEED_FORMATS: { format: FeedFormat; label: string; type: string }[] = [
+  { format: 'rss', label: 'RSS', type: 'application/rss+xml' },
+  { format: 'atom', label: 'Atom', type: 'application/atom+xml' },
+  { format: 'json', label: 'JSON Feed', type: 'application/feed+json' },
+];
+
+/** A syndication feed served by the feed edge function */
+export function getFeedUrl(scope: FeedScope, format: FeedFormat = 'rss'): string {
+  const params = new URLSearchParams(scope);
+  if (format !== 'rss') params.set('format', format);
+  return `${FEED_FUNCTION_URL}?${params}`;
+}
+
+/** RSS feed for a single tag or category */
+export function getTopicFeedUrl(kind: TopicKind, name: string): string {
+  return getFeedUrl(kind === 'tag' ? { tag: name } : { category: name });
+}
@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import { firecrawlApi } from '@/lib/api/firecrawl';
+import { buildExcerpt } from '@/lib/excerpt';
+import { generateSlug, getUniqueSlug } from '@/lib/slug';
+
+export interface ImportedPost {
+  title: string;
+  excerpt: string;
+  content_markdown: string;
+  canonicalUrl: string;
+  siteName: string | null;
+}
+
+/** The scrape was refused by the user's rate limit; retrying after `retryAfter` seconds may work */
+export class RateLimitedError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfter: number,
+  ) {
+    super(message);
+    this.name = 'RateLimitedError';
+  }
+}
+
+interface ScrapeMetadata {
+  title?: string;
+  ogTitle?: string;
+  description?: string;
+  ogDescription?: string;
+  canonical?: string;
+  ogUrl?: string;
+  ogSiteName?: string;
+  sourceURL?: string;
+  url?: string;
+}
+
+export function normalizeUrl(value: string): string {
+  const trimmed = value.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+const firstHttpUrl = (...candidates: (string | undefined)[]) =>
+  candidates.find((candidate) => !!candidate && /^https?:\/\//i.test(candidate));
+
+// Most pages repeat their title as the first heading; the editor already has a title field
+const stripLeadingTitle = (markdown: string, title: string) => {
+  const match = markdown.match(/^\s*#\s+(.+)\n+/);
+  if (match && match[1].trim().toLowerCase() === title.trim().toLowerCase()) {
+    return markdown.slice(match[0].length);
+  }
+  return markdown;
+};
+
+/** Scrapes a published article into fields the post editor understands */
+export async function importPostFromUrl(url: string): Promise<ImportedPost> {
+  const sourceUrl = normalizeUrl(url);
+  const result = await firecrawlApi.scrape(sourceUrl, {
+    formats: ['markdown', 'summary'],
+    onlyMainContent: true,
+  });
+
+  if (!result.success) {
+    if (result.retryAfter !== undefined) {
+      throw new RateLimitedError(result.error || 'Rate limit exceeded', result.retryAfter);
+    }
+    throw new Error(result.error || 'Could not fetch that page');
+  }
+
+  // The edge function passes Firecrawl's body through, which nests the page under data
+  const root = result.data ?? result;
+  const markdown: string = root.markdown?.trim() ?? '';
+  const metadata: ScrapeMetadata = root.metadata ?? {};
+
+  if (!markdown) {
+    throw new Error('No readable content was found on that page');
+  }
+
+  const title = (metadata.ogTitle || metadata.title || '').trim() || 'Untitled import';
+  const description = metadata.ogDescription || metadata.description;
+
+  return {
+    title: title.slice(0, 200),
+    excerpt: buildExcerpt(markdown, description || root.summary) ?? '',
+    content_markdown: stripLeadingTitle(markdown, title),
+    // Prefer what the page declares as canonical over where it happened to be fetched from
+    canonicalUrl: firstHttpUrl(metadata.canonical, metadata.ogUrl, metadata.sourceURL, metadata.url) ?? sourceUrl,
+    siteName: metadata.ogSiteName?.trim() || null,
+  };
+}
+
+/** Saves an imported article as an unpublished draft and returns its id */
+export async function createImportedDraft(
+  authorId: string,
+  post: Pick<ImportedPost, 'title' | 'content_markdown' | 'canonicalUrl'> & {
+    excerpt: string | null;
+    siteName?: string | null;
+  },
+): Promise<string> {
+  const slug = await getUniqueSlug(generateSlug(post.title));
+  const { data, error } = await supabase
+    .from('posts')
+    .insert({
+      author_id: authorId,
+      title: post.title,
+      slug,
+      excerpt: post.excerpt || null,
+      content_markdown: post.content_markdown,
+      canonical_url: post.canonicalUrl,
+      is_published: false,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  // Keep what the scrape said about the original so the post can credit it by name
+  if (post.siteName !== undefined) {
+    const { error: sourceError } = await supabase.from('post_sources').insert({
+      post_id: data.id,
+      url: post.canonicalUrl,
+      title: post.title,
+      site_name: post.siteName,
+      fetched_via: 'scrape',
+    });
+    if (sourceError) console.error('Error saving imported post source', sourceError);
+  }
+
+  return data.id;
+}
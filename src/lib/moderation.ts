@@ -0,0 +1,40 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ReportTargetType = 'post' | 'comment';
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'misinformation' | 'other';
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+export type ModerationAction = 'hide' | 'restore' | 'ban' | 'unban' | 'dismiss';
+
+export const REPORT_REASONS: { value: ReportReason; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Ads, scams or repetitive self-promotion' },
+  { value: 'harassment', label: 'Harassment', description: 'Targets or intimidates a person' },
+  { value: 'hate', label: 'Hateful content', description: 'Attacks people for who they are' },
+  { value: 'misinformation', label: 'Misinformation', description: 'Misleading claims presented as fact' },
+  { value: 'other', label: 'Something else', description: 'Tell the moderators what is wrong' },
+];
+
+export function getReportReasonLabel(reason: string): string {
+  return REPORT_REASONS.find((item) => item.value === reason)?.label ?? reason;
+}
+
+interface ModerateOptions {
+  action: ModerationAction;
+  targetType: ReportTargetType | 'user';
+  targetId: string;
+  reportId?: string;
+  note?: string;
+}
+
+/** Applies a moderation decision; the database records it in the audit log in the same transaction */
+export async function moderate({ action, targetType, targetId, reportId, note }: ModerateOptions): Promise<string> {
+  const { data, error } = await supabase.rpc('moderate', {
+    _action: action,
+    _target_type: targetType,
+    _target_id: targetId,
+    _report_id: reportId,
+    _note: note,
+  });
+
+  if (error) throw error;
+  return data;
+}
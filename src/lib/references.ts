@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ContentLink {
+  url: string;
+  /** Link text as written in the post, unescaped */
+  text: string;
+}
+
+/** What Firecrawl told us about a link when the writer brought it in */
+export interface SourceMetadata {
+  title: string | null;
+  siteName: string | null;
+  fetchedVia: 'scrape' | 'search';
+}
+
+// Code can contain things that look like links but aren't meant as citations
+const CODE_PATTERN = /```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]*`/g;
+const LINK_PATTERN = /(!?)\[((?:\\.|[^\]\\])*)\]\((https?:\/\/[^\s)]+)(?:\s+"[^"]*")?\)|<(https?:\/\/[^>\s]+)>/g;
+
+export const siteNameFromUrl = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+/** External links in the order they first appear, one entry per URL */
+export function extractLinks(markdown: string): ContentLink[] {
+  const links = new Map<string, ContentLink>();
+  const text = markdown.replace(CODE_PATTERN, '');
+
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    const [, bang, label, inlineUrl, autolinkUrl] = match;
+    if (bang) continue;
+    const url = inlineUrl ?? autolinkUrl;
+    if (!links.has(url)) {
+      links.set(url, { url, text: label ? label.replace(/\\(.)/g, '$1').trim() : url });
+    }
+  }
+
+  return Array.from(links.values());
+}
+
+/**
+ * Stores fetched metadata for the post's current links and drops rows for links
+ * the writer has since removed. Links without metadata are left alone.
+ */
+export async function syncPostSources(postId: string, currentUrls: string[], sources: Record<string, SourceMetadata>) {
+  const urls = new Set(currentUrls);
+
+  const rows = Object.entries(sources)
+    .filter(([url]) => urls.has(url))
+    .map(([url, source]) => ({
+      post_id: postId,
+      url,
+      title: source.title,
+      site_name: source.siteName,
+      fetched_via: source.fetchedVia,
+    }));
+
+  if (rows.length) {
+    const { error } = await supabase.from('post_sources').upsert(rows, { onConflict: 'post_id,url' });
+    if (error) throw error;
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('post_sources')
+    .select('id, url')
+    .eq('post_id', postId);
+  if (existingError) throw existingError;
+
+  const staleIds = existing.filter((row) => !urls.has(row.url)).map((row) => row.id);
+  if (staleIds.length) {
+    const { error } = await supabase.from('post_sources').delete().in('id', staleIds);
+    if (error) throw error;
+  }
+}
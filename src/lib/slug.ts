@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function generateSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '')
+    .slice(0, 80)
+    .replace(/-$/, '');
+}
+
+/** Old `/post/:id` links still work, so a route param may be either an id or a slug. */
+export function isPostId(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Returns `base` if no other post owns it (now or in its slug history),
+ * otherwise the first free `base-2`, `base-3`, ...
+ */
+export async function getUniqueSlug(base: string, postId?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('unique_post_slug', {
+    _base: base,
+    _post_id: postId,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export function getPostPath(slug: string): string {
+  return `/post/${slug}`;
+}
+
+export function getTagPath(tag: string): string {
+  return `/tag/${encodeURIComponent(tag)}`;
+}
+
+export function getCategoryPath(category: string): string {
+  return `/category/${encodeURIComponent(category)}`;
+}
@@ -0,0 +1,428 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { eachDayOfInterval, format, formatDistanceToNow, startOfDay, subDays } from 'date-fns';
+import { Activity, Gauge, Trash2, Users, XCircle } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { firecrawlApi } from '@/lib/api/firecrawl';
+import { Layout } from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface UsageLog {
+  function_name: string;
+  success: boolean;
+  error_message: string | null;
+  user_id: string;
+  created_at: string;
+}
+
+const FUNCTIONS = ['scrape', 'search', 'map', 'crawl'] as const;
+const RANGES = [7, 14, 30] as const;
+const PAGE_SIZE = 1000;
+// Logs are pruned after 30 days, so this cap is only a guard against runaway loops
+const MAX_ROWS = 20000;
+const TOP_USER_COUNT = 8;
+// Written by the edge functions' shared rate limiter for per-minute and daily rejections
+const RATE_LIMITED_MESSAGES = new Set(['Rate limit exceeded', 'Daily quota exceeded']);
+
+const callsConfig = {
+  scrape: { label: 'Scrape', color: 'hsl(var(--chart-1))' },
+  search: { label: 'Search', color: 'hsl(var(--chart-2))' },
+  map: { label: 'Map', color: 'hsl(var(--chart-3))' },
+  crawl: { label: 'Crawl', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+const successConfig = {
+  rate: { label: 'Success rate', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const usersConfig = {
+  succeeded: { label: 'Succeeded', color: 'hsl(var(--chart-1))' },
+  failed: { label: 'Failed', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+async function fetchUsageLogs(since: Date): Promise<UsageLog[]> {
+  const rows: UsageLog[] = [];
+
+  // PostgREST caps each response, so page through the window
+  for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('firecrawl_usage_logs')
+      .select('function_name, success, error_message, user_id, created_at')
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+function StatCard({ icon: Icon, label, value, hint }: { icon: typeof Activity; label: string; value: string; hint?: string }) {
+  return (
+    <Card className="border-border/60 shadow-sm">
+      <CardContent className="space-y-1 p-4 sm:p-5">
+        <div className="flex items-center gap-2 text-xs font-medium uppercase tracking-[0.16em] text-muted-foreground">
+          <Icon className="h-3.5 w-3.5" />
+          {label}
+        </div>
+        <p className="font-display text-2xl font-semibold tracking-tight sm:text-3xl">{value}</p>
+        {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminUsage() {
+  const queryClient = useQueryClient();
+  const [rangeDays, setRangeDays] = useState<(typeof RANGES)[number]>(14);
+  const [isCleanupOpen, setIsCleanupOpen] = useState(false);
+  const [lastCleanup, setLastCleanup] = useState<{ deletedCount: number; at: Date } | null>(null);
+
+  const since = useMemo(() => startOfDay(subDays(new Date(), rangeDays - 1)), [rangeDays]);
+
+  const { data: logs, isLoading, isError, refetch } = useQuery({
+    queryKey: ['admin-usage', rangeDays],
+    queryFn: () => fetchUsageLogs(since),
+  });
+
+  const stats = useMemo(() => {
+    const rows = logs ?? [];
+    const days = eachDayOfInterval({ start: since, end: new Date() });
+    const byDay = new Map(
+      days.map((day) => [
+        format(day, 'yyyy-MM-dd'),
+        { date: format(day, 'MMM d'), scrape: 0, search: 0, map: 0, crawl: 0, ok: 0, total: 0 },
+      ]),
+    );
+    const byFunction = new Map<string, { calls: number; ok: number; rateLimited: number }>();
+    const byUser = new Map<string, { succeeded: number; failed: number }>();
+    let succeeded = 0;
+    let rateLimited = 0;
+
+    rows.forEach((row) => {
+      const day = byDay.get(format(new Date(row.created_at), 'yyyy-MM-dd'));
+      if (day) {
+        if (row.function_name in callsConfig) day[row.function_name as keyof typeof callsConfig] += 1;
+        day.total += 1;
+        if (row.success) day.ok += 1;
+      }
+
+      const fn = byFunction.get(row.function_name) ?? { calls: 0, ok: 0, rateLimited: 0 };
+      fn.calls += 1;
+      if (row.success) fn.ok += 1;
+      if (RATE_LIMITED_MESSAGES.has(row.error_message ?? '')) fn.rateLimited += 1;
+      byFunction.set(row.function_name, fn);
+
+      const user = byUser.get(row.user_id) ?? { succeeded: 0, failed: 0 };
+      if (row.success) user.succeeded += 1;
+      else user.failed += 1;
+      byUser.set(row.user_id, user);
+
+      if (row.success) succeeded += 1;
+      if (RATE_LIMITED_MESSAGES.has(row.error_message ?? '')) rateLimited += 1;
+    });
+
+    const daily = Array.from(byDay.values()).map((day) => ({
+      ...day,
+      rate: day.total ? Math.round((day.ok / day.total) * 1000) / 10 : null,
+    }));
+
+    const topUsers = Array.from(byUser.entries())
+      .map(([userId, counts]) => ({ userId, ...counts, calls: counts.succeeded + counts.failed }))
+      .sort((a, b) => b.calls - a.calls)
+      .slice(0, TOP_USER_COUNT);
+
+    return {
+      total: rows.length,
+      successRate: rows.length ? succeeded / rows.length : null,
+      rateLimited,
+      uniqueUsers: byUser.size,
+      daily,
+      byFunction: Array.from(byFunction.entries()).sort((a, b) => b[1].calls - a[1].calls),
+      topUsers,
+    };
+  }, [logs, since]);
+
+  const topUserIds = stats.topUsers.map((user) => user.userId);
+
+  // Usage logs reference auth users rather than profiles, so names are looked up separately
+  const { data: profileNames } = useQuery({
+    queryKey: ['admin-usage-profiles', topUserIds],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('profiles').select('id, display_name').in('id', topUserIds);
+      if (error) throw error;
+      return new Map(data.map((profile) => [profile.id, profile.display_name]));
+    },
+    enabled: topUserIds.length > 0,
+  });
+
+  const topUsersData = stats.topUsers.map((user) => ({
+    ...user,
+    name: profileNames?.get(user.userId) ?? `${user.userId.slice(0, 8)}…`,
+  }));
+
+  const cleanupMutation = useMutation({
+    mutationFn: async () => {
+      const result = await firecrawlApi.cleanupLogs();
+      if (!result.success) throw new Error(result.error || 'Cleanup failed');
+      return result.deletedCount ?? 0;
+    },
+    onSuccess: (deletedCount) => {
+      setLastCleanup({ deletedCount, at: new Date() });
+      setIsCleanupOpen(false);
+      toast.success(`Deleted ${deletedCount} ${deletedCount === 1 ? 'log' : 'logs'} older than 30 days`);
+      queryClient.invalidateQueries({ queryKey: ['admin-usage'] });
+    },
+    onError: (error) => {
+      console.error('Error cleaning up usage logs', error);
+      toast.error(error instanceof Error ? error.message : 'Cleanup failed');
+    },
+  });
+
+  return (
+    <Layout>
+      <div className="container px-3 sm:px-4 py-8 md:py-12">
+        <div className="max-w-6xl mx-auto space-y-8">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between animate-fade-in">
+            <div className="space-y-2">
+              <h1 className="font-display text-2xl font-semibold tracking-tight sm:text-3xl md:text-4xl">
+                Firecrawl usage
+              </h1>
+              <p className="text-sm text-muted-foreground sm:text-base">
+                Scrape, search, map and crawl calls across all writers.
+              </p>
+            </div>
+            <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(Number(value) as (typeof RANGES)[number])}>
+              <SelectTrigger className="h-9 w-40 rounded-full text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    Last {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-6">
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                {[1, 2, 3, 4].map((i) => (
+                  <Skeleton key={i} className="h-24 rounded-xl" />
+                ))}
+              </div>
+              <Skeleton className="h-80 rounded-xl" />
+            </div>
+          ) : isError ? (
+            <div className="space-y-3 py-16 text-center">
+              <p className="text-sm text-muted-foreground">Couldn't load usage logs.</p>
+              <Button variant="outline" size="sm" onClick={() => refetch()}>
+                Try again
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                <StatCard icon={Activity} label="Calls" value={stats.total.toLocaleString()} />
+                <StatCard icon={Gauge} label="Success rate" value={formatPercent(stats.successRate)} />
+                <StatCard
+                  icon={XCircle}
+                  label="Rate limited"
+                  value={stats.rateLimited.toLocaleString()}
+                  hint="Calls rejected by a per-minute limit or daily quota"
+                />
+                <StatCard icon={Users} label="Active users" value={stats.uniqueUsers.toLocaleString()} />
+              </div>
+
+              <Card className="border-border/60 shadow-sm">
+                <CardHeader>
+                  <CardTitle className="font-display text-lg">Calls per function</CardTitle>
+                  <CardDescription>Daily volume, stacked by edge function.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={callsConfig} className="aspect-auto h-72 w-full">
+                    <BarChart data={stats.daily}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {FUNCTIONS.map((fn, index) => (
+                        <Bar
+                          key={fn}
+                          dataKey={fn}
+                          stackId="calls"
+                          fill={`var(--color-${fn})`}
+                          radius={index === FUNCTIONS.length - 1 ? [4, 4, 0, 0] : 0}
+                        />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <div className="grid gap-6 lg:grid-cols-2">
+                <Card className="border-border/60 shadow-sm">
+                  <CardHeader>
+                    <CardTitle className="font-display text-lg">Success rate</CardTitle>
+                    <CardDescription>Share of calls that returned successfully, per day.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={successConfig} className="aspect-auto h-60 w-full">
+                      <LineChart data={stats.daily}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                        <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} tickLine={false} axisLine={false} width={40} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Line dataKey="rate" type="monotone" stroke="var(--color-rate)" strokeWidth={2} dot={false} connectNulls />
+                      </LineChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                <Card className="border-border/60 shadow-sm">
+                  <CardHeader>
+                    <CardTitle className="font-display text-lg">Top users</CardTitle>
+                    <CardDescription>Most calls in the selected window.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {topUsersData.length > 0 ? (
+                      <ChartContainer config={usersConfig} className="aspect-auto h-60 w-full">
+                        <BarChart data={topUsersData} layout="vertical" margin={{ left: 8 }}>
+                          <CartesianGrid horizontal={false} />
+                          <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                          <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={96} />
+                          <ChartTooltip content={<ChartTooltipContent />} />
+                          <Bar dataKey="succeeded" stackId="user" fill="var(--color-succeeded)" />
+                          <Bar dataKey="failed" stackId="user" fill="var(--color-failed)" radius={[0, 4, 4, 0]} />
+                        </BarChart>
+                      </ChartContainer>
+                    ) : (
+                      <p className="py-16 text-center text-sm text-muted-foreground">No calls in this window.</p>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card className="border-border/60 shadow-sm">
+                <CardHeader>
+                  <CardTitle className="font-display text-lg">By function</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-b border-border/60">
+                        <TableHead className="text-xs font-medium uppercase tracking-[0.18em] text-muted-foreground">Function</TableHead>
+                        <TableHead className="text-right text-xs font-medium uppercase tracking-[0.18em] text-muted-foreground">Calls</TableHead>
+                        <TableHead className="text-right text-xs font-medium uppercase tracking-[0.18em] text-muted-foreground">Success</TableHead>
+                        <TableHead className="text-right text-xs font-medium uppercase tracking-[0.18em] text-muted-foreground">Rate limited</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stats.byFunction.length > 0 ? (
+                        stats.byFunction.map(([name, fn]) => (
+                          <TableRow key={name} className="border-b border-border/40 last:border-0">
+                            <TableCell className="font-medium capitalize">{name}</TableCell>
+                            <TableCell className="text-right tabular-nums">{fn.calls.toLocaleString()}</TableCell>
+                            <TableCell className="text-right tabular-nums">{formatPercent(fn.ok / fn.calls)}</TableCell>
+                            <TableCell className="text-right tabular-nums">{fn.rateLimited.toLocaleString()}</TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={4} className="py-8 text-center text-sm text-muted-foreground">
+                            No calls in this window.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </>
+          )}
+
+          <Card className="border-dashed border-border/70 shadow-sm">
+            <CardHeader className="flex flex-col gap-4 space-y-0 sm:flex-row sm:items-center sm:justify-between">
+              <div className="space-y-1.5">
+                <CardTitle className="font-display text-lg">Log retention</CardTitle>
+                <CardDescription>
+                  Logs older than 30 days are pruned by <code>cleanup-firecrawl-logs</code>. Run it now to prune immediately.
+                </CardDescription>
+                {lastCleanup && (
+                  <p className="text-xs text-muted-foreground">
+                    Last run deleted {lastCleanup.deletedCount.toLocaleString()}{' '}
+                    {lastCleanup.deletedCount === 1 ? 'row' : 'rows'} {formatDistanceToNow(lastCleanup.at, { addSuffix: true })}.
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                className="shrink-0 gap-2 rounded-full"
+                onClick={() => setIsCleanupOpen(true)}
+                disabled={cleanupMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+                {cleanupMutation.isPending ? 'Cleaning up…' : 'Run cleanup'}
+              </Button>
+            </CardHeader>
+          </Card>
+        </div>
+      </div>
+
+      <AlertDialog open={isCleanupOpen} onOpenChange={setIsCleanupOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete old usage logs?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every log older than 30 days is permanently deleted. Charts for longer windows will lose that history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={cleanupMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                cleanupMutation.mutate();
+              }}
+              disabled={cleanupMutation.isPending}
+            >
+              {cleanupMutation.isPending ? 'Deleting…' : 'Delete old logs'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+}
@@ -6,9 +6,16 @@ import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
-import { Calendar, User, Globe2, Instagram, Twitter, Music2 } from 'lucide-react';
+import { Calendar, User, Globe2, Instagram, Twitter, Music2, Rss } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { getReadingTimeMinutes } from '@/lib/readingTime';
+import { getPostPath } from '@/lib/slug';
+import { BookmarkButton } from '@/components/BookmarkButton';
+import { FollowButton, FollowCounts } from '@/components/FollowButton';
+import { useFollowCounts } from '@/hooks/use-follows';
+import { useFeedLinks } from '@/hooks/use-feed-links';
+import { useDocumentHead } from '@/hooks/use-document-head';
+import { getFeedUrl } from '@/lib/feeds';
 
 interface Profile {
   id: string;
@@ -24,6 +31,7 @@ interface Profile {
 
 interface PostSummary {
   id: string;
+  slug: string;
   title: string;
   excerpt: string | null;
   content_markdown: string;
@@ -55,9 +63,10 @@ export default function AuthorPage() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('posts')
-        .select('id, title, excerpt, content_markdown, published_at, category, tags')
+        .select('id, slug, title, excerpt, content_markdown, published_at, category, tags')
         .eq('author_id', id)
         .eq('is_published', true)
+        .eq('is_hidden', false)
         .order('published_at', { ascending: false });
 
       if (error) throw error;
@@ -66,6 +75,20 @@ export default function AuthorPage() {
     enabled: !!id,
   });
 
+  const { data: followCounts } = useFollowCounts(id);
+
+  useFeedLinks(profile ? { author: profile.id } : null, `${profile?.display_name} on QuillScroll`);
+  useDocumentHead(
+    profile
+      ? {
+          title: `${profile.display_name} · QuillScroll`,
+          description: profile.bio,
+          image: profile.avatar_url,
+          type: 'profile',
+        }
+      : null,
+  );
+
   const isLoading = profileLoading || postsLoading;
 
   const allTags = useMemo(() => {
@@ -168,6 +191,10 @@ export default function AuthorPage() {
                             })}
                           </span>
                         )}
+                        {followCounts && (
+                          <FollowCounts followers={followCounts.followers} following={followCounts.following} />
+                        )}
+                        <FollowButton authorId={profile.id} />
                       </div>
                       <div className="flex flex-wrap gap-2">
                         {profile.website_url && (
@@ -218,6 +245,15 @@ export default function AuthorPage() {
                             <span>@{profile.tiktok_handle.replace(/^@/, '')}</span>
                           </a>
                         )}
+                        <a
+                          href={getFeedUrl({ author: profile.id })}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="inline-flex items-center gap-1.5 rounded-full border border-border/60 bg-muted/50 px-3 py-1 text-xs font-medium text-muted-foreground transition hover:bg-background hover:text-foreground"
+                        >
+                          <Rss className="h-3.5 w-3.5" />
+                          <span>RSS</span>
+                        </a>
                       </div>
                     </div>
                   </div>
@@ -302,7 +338,7 @@ export default function AuthorPage() {
               {filteredPosts && filteredPosts.length > 0 ? (
                 <div className="grid gap-5 md:grid-cols-2">
                   {filteredPosts.map((post) => (
-                    <Link key={post.id} to={`/post/${post.id}`}>
+                    <Link key={post.id} to={getPostPath(post.slug)}>
                       <Card className="h-full transition-all hover:-translate-y-1 hover:shadow-lg">
                         <CardHeader className="space-y-2">
                           {post.category && (
@@ -338,9 +374,12 @@ export default function AuthorPage() {
                               ))}
                             </div>
                           )}
-                          <CardTitle className="line-clamp-2 text-base md:text-lg">
-                            {post.title}
-                          </CardTitle>
+                          <div className="flex items-start justify-between gap-2">
+                            <CardTitle className="line-clamp-2 text-base md:text-lg">
+                              {post.title}
+                            </CardTitle>
+                            <BookmarkButton postId={post.id} className="-mr-2 -mt-1 shrink-0" />
+                          </div>
                           <CardDescription className="flex flex-wrap items-center gap-3 text-[0.7rem] text-muted-foreground md:text-xs">
                             {post.published_at && (
                               <span className="flex items-center gap-1">
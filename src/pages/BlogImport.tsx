@@ -0,0 +1,491 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, CheckCircle2, Copy, Globe2, Loader2, Rocket, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Layout } from '@/components/Layout';
+import { SitemapPicker } from '@/components/SitemapPicker';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { firecrawlApi, type CrawlJob } from '@/lib/api/firecrawl';
+import { createImportedDraft, normalizeUrl } from '@/lib/importPost';
+import { generateSlug } from '@/lib/slug';
+import { cn } from '@/lib/utils';
+
+interface CrawledPage {
+  id: string;
+  url: string;
+  title: string;
+  excerpt: string | null;
+  content_markdown: string;
+  status: 'pending' | 'imported' | 'skipped';
+  post_id: string | null;
+}
+
+const PAGE_LIMITS = [10, 25, 50, 100];
+const POLL_INTERVAL_MS = 5000;
+
+const JOB_STATUS_LABELS: Record<string, string> = {
+  scraping: 'Crawling',
+  completed: 'Ready to review',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+function StartCrawl() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [url, setUrl] = useState('');
+  const [limit, setLimit] = useState(25);
+
+  const { data: jobs, isLoading: jobsLoading } = useQuery({
+    queryKey: ['crawl-jobs', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('crawl_jobs')
+        .select('*')
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: false })
+        .limit(10);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const result = await firecrawlApi.crawl(normalizeUrl(url), { limit });
+      if (!result.success) throw new Error(result.error || 'Could not start the crawl');
+      const jobId = (result as { jobId?: string | null }).jobId;
+      if (!jobId) throw new Error('The crawl started but could not be tracked');
+      return jobId;
+    },
+    onSuccess: (jobId) => navigate(`/dashboard/import/${jobId}`),
+    onError: (error) => {
+      console.error('Error starting crawl', error);
+      toast.error(error instanceof Error ? error.message : 'Could not start the crawl');
+    },
+  });
+
+  return (
+    <div className="space-y-8">
+      <Tabs defaultValue="crawl" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="crawl">Crawl the whole site</TabsTrigger>
+          <TabsTrigger value="pick">Pick pages</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="crawl">
+          <Card className="border-border/60 shadow-sm">
+            <CardHeader>
+              <CardTitle className="font-display text-lg">Where does your blog live?</CardTitle>
+              <CardDescription>
+                We crawl it, then you pick which pages become drafts. Nothing is published automatically.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (url.trim()) startMutation.mutate();
+                }}
+                className="flex flex-col gap-3 sm:flex-row"
+              >
+                <Input
+                  type="text"
+                  inputMode="url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="yourname.substack.com"
+                  className="text-sm sm:flex-1"
+                />
+                <Select value={String(limit)} onValueChange={(value) => setLimit(Number(value))}>
+                  <SelectTrigger className="text-sm sm:w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAGE_LIMITS.map((value) => (
+                      <SelectItem key={value} value={String(value)}>
+                        Up to {value} pages
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={!url.trim() || startMutation.isPending} className="rounded-xl">
+                  {startMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Rocket className="mr-2 h-4 w-4" />}
+                  Start crawl
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="pick">
+          <SitemapPicker />
+        </TabsContent>
+      </Tabs>
+
+      <div className="space-y-3">
+        <h2 className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground">Recent crawls</h2>
+        {jobsLoading ? (
+          <Skeleton className="h-20 w-full rounded-xl" />
+        ) : jobs && jobs.length > 0 ? (
+          <Card className="border-border/60 shadow-sm">
+            <ul className="divide-y divide-border/50">
+              {jobs.map((job) => (
+                <li key={job.id}>
+                  <Link
+                    to={`/dashboard/import/${job.id}`}
+                    className="flex items-center justify-between gap-4 px-4 py-3 transition-colors hover:bg-muted/40"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">{job.source_url}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {JOB_STATUS_LABELS[job.status] ?? job.status}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        ) : (
+          <p className="text-sm text-muted-foreground">No crawls yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ReviewCrawl({ jobId }: { jobId: string }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [hasInitialSelection, setHasInitialSelection] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const {
+    data: job,
+    isLoading: jobLoading,
+    isError: jobError,
+    error: jobErrorValue,
+  } = useQuery({
+    queryKey: ['crawl-job', jobId],
+    queryFn: async () => {
+      const result = await firecrawlApi.crawlStatus(jobId);
+      if (!result.success || !result.job) throw new Error(result.error || 'Could not load this crawl');
+      return result.job as CrawlJob;
+    },
+    // Keep asking Firecrawl until the crawl settles
+    refetchInterval: (query) => (query.state.data?.status === 'scraping' ? POLL_INTERVAL_MS : false),
+  });
+
+  const isCompleted = job?.status === 'completed';
+
+  const { data: pages, isLoading: pagesLoading } = useQuery({
+    queryKey: ['crawl-job-pages', jobId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('crawl_job_pages')
+        .select('id, url, title, excerpt, content_markdown, status, post_id')
+        .eq('job_id', jobId)
+        .order('url', { ascending: true });
+      if (error) throw error;
+      return data as CrawledPage[];
+    },
+    enabled: isCompleted,
+  });
+
+  const { data: existing } = useQuery({
+    queryKey: ['user-post-slugs', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('posts')
+        .select('slug, canonical_url')
+        .eq('author_id', user!.id);
+      if (error) throw error;
+      return {
+        slugs: new Set(data.map((post) => post.slug)),
+        canonicalUrls: new Set(data.map((post) => post.canonical_url).filter(Boolean)),
+      };
+    },
+    enabled: !!user && isCompleted,
+  });
+
+  const duplicates = useMemo(() => {
+    const result = new Set<string>();
+    if (!pages || !existing) return result;
+    pages.forEach((page) => {
+      if (existing.slugs.has(generateSlug(page.title)) || existing.canonicalUrls.has(page.url)) {
+        result.add(page.id);
+      }
+    });
+    return result;
+  }, [pages, existing]);
+
+  // Pre-tick every pending page that doesn't look like something already on the blog
+  useEffect(() => {
+    if (hasInitialSelection || !pages || !existing) return;
+    setSelected(new Set(pages.filter((page) => page.status === 'pending' && !duplicates.has(page.id)).map((page) => page.id)));
+    setHasInitialSelection(true);
+  }, [pages, existing, duplicates, hasInitialSelection]);
+
+  const pendingPages = (pages ?? []).filter((page) => page.status === 'pending');
+  const selectedPages = pendingPages.filter((page) => selected.has(page.id));
+
+  const toggle = (pageId: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(pageId);
+      else next.delete(pageId);
+      return next;
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (toImport: CrawledPage[]) => {
+      let imported = 0;
+      setImportProgress({ done: 0, total: toImport.length });
+
+      // One at a time so each draft gets its own de-duplicated slug
+      for (const page of toImport) {
+        try {
+          const postId = await createImportedDraft(user!.id, { ...page, canonicalUrl: page.url });
+          const { error: pageError } = await supabase
+            .from('crawl_job_pages')
+            .update({ status: 'imported', post_id: postId })
+            .eq('id', page.id);
+          if (pageError) console.error('Error marking crawled page imported', pageError);
+          imported += 1;
+        } catch (error) {
+          console.error('Error importing crawled page', page.url, error);
+        }
+        setImportProgress((prev) => prev && { ...prev, done: prev.done + 1 });
+      }
+
+      return { imported, failed: toImport.length - imported };
+    },
+    onSuccess: ({ imported, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['crawl-job-pages', jobId] });
+      queryClient.invalidateQueries({ queryKey: ['user-post-slugs'] });
+      queryClient.invalidateQueries({ queryKey: ['user-posts'] });
+      setSelected(new Set());
+      if (failed) toast.error(`Imported ${imported} drafts, ${failed} failed`);
+      else toast.success(`Imported ${imported} ${imported === 1 ? 'draft' : 'drafts'}`);
+    },
+    onError: (error) => {
+      console.error('Error importing crawled pages', error);
+      toast.error('Import failed');
+    },
+    onSettled: () => setImportProgress(null),
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: async (pageIds: string[]) => {
+      const { error } = await supabase.from('crawl_job_pages').update({ status: 'skipped' }).in('id', pageIds);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['crawl-job-pages', jobId] });
+      setSelected(new Set());
+    },
+    onError: () => toast.error('Failed to skip pages'),
+  });
+
+  if (jobLoading) {
+    return <Skeleton className="h-40 w-full rounded-xl" />;
+  }
+
+  if (jobError || !job) {
+    return (
+      <p className="py-10 text-center text-sm text-muted-foreground">
+        {jobErrorValue instanceof Error ? jobErrorValue.message : 'Could not load this crawl'}
+      </p>
+    );
+  }
+
+  const isBusy = importMutation.isPending || skipMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-border/60 shadow-sm">
+        <CardContent className="space-y-3 p-4 sm:p-5">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="flex min-w-0 items-center gap-2 text-sm font-medium">
+              <Globe2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="truncate">{job.source_url}</span>
+            </p>
+            <span className="text-xs text-muted-foreground">{JOB_STATUS_LABELS[job.status] ?? job.status}</span>
+          </div>
+          {job.status === 'scraping' && (
+            <div className="space-y-1.5">
+              <Progress value={job.total ? (job.completed / job.total) * 100 : 5} />
+              <p className="text-xs text-muted-foreground">
+                {job.total ? `${job.completed} of ${job.total} pages crawled` : 'Discovering pages…'} This page updates on its own.
+              </p>
+            </div>
+          )}
+          {job.status === 'failed' && (
+            <p className="text-sm text-destructive">{job.error_message ?? 'The crawl failed.'}</p>
+          )}
+          {isCompleted && job.results_truncated && (
+            <p className="text-xs text-muted-foreground">
+              This crawl found more pages than one import can bring in, so some are missing below. Start another import
+              from a section of the site, like its blog or archive page, to get the rest.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {isCompleted &&
+        (pagesLoading ? (
+          <Skeleton className="h-64 w-full rounded-xl" />
+        ) : pages && pages.length > 0 ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-muted-foreground">
+                {selectedPages.length} of {pendingPages.length} pending pages selected
+                {duplicates.size > 0 && ` · ${duplicates.size} look like posts you already have`}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="rounded-full"
+                  onClick={() => skipMutation.mutate(selectedPages.map((page) => page.id))}
+                  disabled={!selectedPages.length || isBusy}
+                >
+                  Skip selected
+                </Button>
+                <Button
+                  size="sm"
+                  className="rounded-full"
+                  onClick={() => importMutation.mutate(selectedPages)}
+                  disabled={!selectedPages.length || isBusy}
+                >
+                  {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Import {selectedPages.length || ''} as drafts
+                </Button>
+              </div>
+            </div>
+
+            {importProgress && (
+              <Progress value={(importProgress.done / importProgress.total) * 100} />
+            )}
+
+            <Card className="border-border/60 shadow-sm">
+              <ul className="divide-y divide-border/50">
+                {pages.map((page) => {
+                  const isDuplicate = duplicates.has(page.id);
+                  const isPending = page.status === 'pending';
+                  return (
+                    <li key={page.id} className={cn('flex items-start gap-3 px-4 py-3', !isPending && 'opacity-60')}>
+                      <Checkbox
+                        checked={isPending && selected.has(page.id)}
+                        onCheckedChange={(checked) => toggle(page.id, checked === true)}
+                        disabled={!isPending || isBusy}
+                        className="mt-1"
+                        aria-label={`Select ${page.title}`}
+                      />
+                      <div className="min-w-0 flex-1 space-y-0.5">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <p className="text-sm font-medium leading-snug">{page.title}</p>
+                          {isDuplicate && isPending && (
+                            <span className="inline-flex items-center gap-1 rounded-full bg-amber-500/10 px-2 py-0.5 text-[0.65rem] font-medium text-amber-600 dark:text-amber-400">
+                              <Copy className="h-3 w-3" />
+                              Possible duplicate
+                            </span>
+                          )}
+                          {page.status === 'imported' && (
+                            <span className="inline-flex items-center gap-1 text-[0.65rem] font-medium text-emerald-600 dark:text-emerald-400">
+                              <CheckCircle2 className="h-3 w-3" />
+                              Imported
+                            </span>
+                          )}
+                          {page.status === 'skipped' && (
+                            <span className="inline-flex items-center gap-1 text-[0.65rem] font-medium text-muted-foreground">
+                              <XCircle className="h-3 w-3" />
+                              Skipped
+                            </span>
+                          )}
+                        </div>
+                        <a
+                          href={page.url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="block truncate text-xs text-muted-foreground hover:text-foreground"
+                        >
+                          {page.url}
+                        </a>
+                        {page.excerpt && <p className="line-clamp-2 text-xs text-muted-foreground">{page.excerpt}</p>}
+                        {page.post_id && (
+                          <Link
+                            to={`/dashboard/edit/${page.post_id}`}
+                            className="text-xs font-medium text-primary hover:underline"
+                          >
+                            Open draft
+                          </Link>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </Card>
+          </div>
+        ) : (
+          <p className="py-10 text-center text-sm text-muted-foreground">
+            The crawl finished but found no readable pages.
+          </p>
+        ))}
+    </div>
+  );
+}
+
+export default function BlogImport() {
+  const { jobId } = useParams<{ jobId: string }>();
+  const navigate = useNavigate();
+
+  return (
+    <Layout>
+      <div className="container px-3 sm:px-4 py-8 md:py-12">
+        <div className="max-w-3xl mx-auto space-y-8">
+          <Button
+            variant="ghost"
+            onClick={() => navigate(jobId ? '/dashboard/import' : '/dashboard')}
+            className="-ml-2 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {jobId ? 'All crawls' : 'Back to dashboard'}
+          </Button>
+
+          <div className="space-y-2 animate-fade-in">
+            <h1 className="font-display text-2xl font-semibold tracking-tight sm:text-3xl md:text-4xl">
+              Migrate my blog
+            </h1>
+            <p className="text-sm text-muted-foreground sm:text-base">
+              {jobId
+                ? 'Tick the pages you want to bring over. Each becomes a draft with a link back to the original.'
+                : 'Bring an existing blog over in one go.'}
+            </p>
+          </div>
+
+          {jobId ? <ReviewCrawl jobId={jobId} /> : <StartCrawl />}
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -9,8 +9,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
-import { PlusCircle, Edit, Trash2, FileText, Globe2, Twitter, Instagram, Music2, CheckCircle2, Circle } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { PlusCircle, Download, Edit, Trash2, FileText, Globe2, Twitter, Instagram, Music2, CheckCircle2, Circle } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
 import { useState } from 'react';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { seedLovableDemoPosts } from '@/lib/demoPosts';
@@ -22,14 +22,35 @@ interface DashboardPost {
   is_published: boolean;
   updated_at: string;
   slug: string;
+  scheduled_for: string | null;
 }
 
+type PostStatus = 'published' | 'scheduled' | 'draft';
+
+const getPostStatus = (post: DashboardPost): PostStatus => {
+  if (post.is_published) return 'published';
+  if (post.scheduled_for) return 'scheduled';
+  return 'draft';
+};
+
+const STATUS_BADGE_CLASSES: Record<PostStatus, string> = {
+  published: 'bg-primary/10 text-primary',
+  scheduled: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+  draft: 'bg-muted text-muted-foreground',
+};
+
+const getStatusLabel = (post: DashboardPost) => {
+  const status = getPostStatus(post);
+  if (status === 'scheduled') return `Scheduled · ${format(new Date(post.scheduled_for!), 'MMM d, HH:mm')}`;
+  return status === 'published' ? 'Published' : 'Draft';
+};
+
 export default function Dashboard() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [deletePostId, setDeletePostId] = useState<string | null>(null);
-  const [statusFilter, setStatusFilter] = useState<'all' | 'published' | 'draft'>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | PostStatus>('all');
   const [sortOrder, setSortOrder] = useState<'desc' | 'asc'>('desc');
   const [isSeedingDemo, setIsSeedingDemo] = useState(false);
 
@@ -44,7 +65,7 @@ export default function Dashboard() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('posts')
-        .select('id, title, is_published, updated_at, slug')
+        .select('id, title, is_published, updated_at, slug, scheduled_for')
         .eq('author_id', user!.id)
         .order('updated_at', { ascending: false });
       if (error) throw error;
@@ -85,9 +106,8 @@ export default function Dashboard() {
   const allOnboardingDone = hasCompletedProfile && hasWrittenFirstPost && hasLoadedDemoPosts;
 
   const visiblePosts = [...(posts ?? [])].filter(post => {
-    if (statusFilter === 'published') return post.is_published;
-    if (statusFilter === 'draft') return !post.is_published;
-    return true;
+    if (statusFilter === 'all') return true;
+    return getPostStatus(post) === statusFilter;
   }).sort((a, b) => {
     const aTime = new Date(a.updated_at).getTime();
     const bTime = new Date(b.updated_at).getTime();
@@ -155,10 +175,16 @@ export default function Dashboard() {
                 Track your posts, drafts, and publishing flow.
               </p>
             </div>
-            <Button onClick={() => navigate('/dashboard/new')} size="lg" className="mt-2 sm:mt-0 rounded-xl shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all">
-              <PlusCircle className="mr-2 h-5 w-5" />
-              New Post
-            </Button>
+            <div className="mt-2 flex flex-wrap gap-2 sm:mt-0">
+              <Button onClick={() => navigate('/dashboard/import')} size="lg" variant="outline" className="rounded-xl border-border/50 bg-background/50 hover:bg-background transition-all">
+                <Download className="mr-2 h-5 w-5" />
+                Migrate my blog
+              </Button>
+              <Button onClick={() => navigate('/dashboard/new')} size="lg" className="rounded-xl shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all">
+                <PlusCircle className="mr-2 h-5 w-5" />
+                New Post
+              </Button>
+            </div>
           </div>
 
           {!allOnboardingDone && (
@@ -416,13 +442,9 @@ export default function Dashboard() {
                         </p>
                       </div>
                       <span
-                        className={`inline-flex items-center rounded-full px-2 py-0.5 text-[0.65rem] font-medium ${
-                          post.is_published
-                            ? 'bg-primary/10 text-primary'
-                            : 'bg-muted text-muted-foreground'
-                        }`}
+                        className={`inline-flex items-center rounded-full px-2 py-0.5 text-[0.65rem] font-medium ${STATUS_BADGE_CLASSES[getPostStatus(post)]}`}
                       >
-                        {post.is_published ? 'Published' : 'Draft'}
+                        {getStatusLabel(post)}
                       </span>
                     </li>
                   ))}
@@ -483,11 +505,12 @@ export default function Dashboard() {
                   <span className="uppercase tracking-[0.16em]">Status</span>
                   <select
                     value={statusFilter}
-                    onChange={e => setStatusFilter(e.target.value as 'all' | 'published' | 'draft')}
+                    onChange={e => setStatusFilter(e.target.value as 'all' | PostStatus)}
                     className="rounded-lg border border-border bg-background/80 px-2 py-1 text-[0.7rem] sm:text-xs focus:outline-none focus:ring-1 focus:ring-ring"
                   >
                     <option value="all">All</option>
                     <option value="published">Published</option>
+                    <option value="scheduled">Scheduled</option>
                     <option value="draft">Drafts</option>
                   </select>
                 </div>
@@ -554,13 +577,9 @@ export default function Dashboard() {
                             </TableCell>
                             <TableCell className="py-3 align-middle">
                               <span
-                                className={`inline-flex items-center rounded-full px-2.5 py-1 text-xs font-medium transition-colors ${
-                                  post.is_published
-                                    ? 'bg-primary/10 text-primary'
-                                    : 'bg-muted text-muted-foreground'
-                                }`}
+                                className={`inline-flex items-center rounded-full px-2.5 py-1 text-xs font-medium transition-colors ${STATUS_BADGE_CLASSES[getPostStatus(post)]}`}
                               >
-                                {post.is_published ? 'Published' : 'Draft'}
+                                {getStatusLabel(post)}
                               </span>
                             </TableCell>
                             <TableCell className="py-3 align-middle text-[0.7rem] text-muted-foreground sm:text-xs md:text-sm">
@@ -0,0 +1,35 @@
+import { Link } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { Layout } from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+
+export default function Forbidden() {
+  return (
+    <Layout>
+      <div className="container px-4 py-20 sm:py-28">
+        <div className="mx-auto max-w-md space-y-6 text-center animate-fade-in">
+          <span className="mx-auto flex h-14 w-14 items-center justify-center rounded-2xl bg-destructive/10 text-destructive">
+            <ShieldAlert className="h-7 w-7" />
+          </span>
+          <div className="space-y-2">
+            <p className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground">403</p>
+            <h1 className="font-display text-2xl font-semibold tracking-tight sm:text-3xl">
+              You don't have access to this page
+            </h1>
+            <p className="text-sm text-muted-foreground sm:text-base">
+              Your account is signed in but doesn't have the role this page needs. Ask an admin if you think that's a mistake.
+            </p>
+          </div>
+          <div className="flex items-center justify-center gap-3">
+            <Button asChild variant="outline" className="rounded-full">
+              <Link to="/">Go home</Link>
+            </Button>
+            <Button asChild className="rounded-full">
+              <Link to="/dashboard">Open dashboard</Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -1,5 +1,5 @@
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { useState, useMemo } from 'react';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -7,19 +7,33 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Layout } from '@/components/Layout';
 import { Link, useNavigate } from 'react-router-dom';
 import { formatDistanceToNow } from 'date-fns';
-import { Calendar, User, Search } from 'lucide-react';
-import { getReadingTimeMinutes } from '@/lib/readingTime';
+import { Calendar, User, Search, CheckCircle2 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { seedLovableDemoPosts } from '@/lib/demoPosts';
 import { WelcomeBanner } from '@/components/WelcomeBanner';
 import { AuthorCard } from '@/components/AuthorCard';
+import { BookmarkButton } from '@/components/BookmarkButton';
+import { getCategoryPath, getPostPath, getTagPath } from '@/lib/slug';
+import { useReadingHistory } from '@/hooks/use-reading-history';
+import { useFollowing } from '@/hooks/use-follows';
+import { useReactionCounts } from '@/hooks/use-reactions';
+import { useFeedLinks } from '@/hooks/use-feed-links';
+import { ReactionSummary } from '@/components/ReactionBar';
+type Feed = 'latest' | 'following';
+type FeedCursor = {
+  publishedAt: string;
+  id: string;
+};
+const FEED_PAGE_SIZE = 12;
 interface Post {
   id: string;
+  slug: string;
   title: string;
   excerpt: string | null;
-  content_markdown: string;
+  reading_time_minutes: number;
   published_at: string | null;
   category: string | null;
   tags: string[];
@@ -38,31 +52,48 @@ export default function Index() {
   const [searchQuery, setSearchQuery] = useState('');
   const [activeTag, setActiveTag] = useState<string | null>(null);
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
+  const [feed, setFeed] = useState<Feed>('latest');
   const {
     user
   } = useAuth();
+  const {
+    followingIds
+  } = useFollowing();
+  // Signing out falls back to everyone's posts
+  const isFollowingFeed = !!user && feed === 'following';
   const {
     toast
   } = useToast();
   const queryClient = useQueryClient();
   const navigate = useNavigate();
+  const readingHistory = useReadingHistory();
+  useFeedLinks({}, 'QuillScroll');
   const {
-    data: posts,
+    data,
     isLoading,
     isError,
     error,
-    refetch
-  } = useQuery({
-    queryKey: ['posts'],
-    queryFn: async () => {
-      const {
-        data,
-        error
-      } = await supabase.from('posts').select(`
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['posts', {
+      following: isFollowingFeed ? followingIds : null,
+      tag: activeTag,
+      category: activeCategory
+    }],
+    queryFn: async ({
+      pageParam
+    }: {
+      pageParam: FeedCursor | null;
+    }) => {
+      let query = supabase.from('posts').select(`
           id,
+          slug,
           title,
           excerpt,
-          content_markdown,
+          reading_time_minutes,
           published_at,
           category,
           tags,
@@ -76,45 +107,86 @@ export default function Index() {
             instagram_handle,
             tiktok_handle
           )
-        `).eq('is_published', true).order('published_at', {
+        `).eq('is_published', true).eq('is_hidden', false).not('published_at', 'is', null);
+      if (isFollowingFeed) query = query.in('author_id', followingIds);
+      if (activeTag) query = query.contains('tags', [activeTag]);
+      if (activeCategory) query = query.eq('category', activeCategory);
+      // Keyset pagination: everything strictly after the last post of the previous page
+      if (pageParam) query = query.or(`published_at.lt."${pageParam.publishedAt}",and(published_at.eq."${pageParam.publishedAt}",id.lt.${pageParam.id})`);
+      const {
+        data,
+        error
+      } = await query.order('published_at', {
+        ascending: false
+      }).order('id', {
         ascending: false
-      });
+      }).limit(FEED_PAGE_SIZE);
       if (error) throw error;
       return data as Post[];
+    },
+    initialPageParam: null,
+    getNextPageParam: lastPage => {
+      if (lastPage.length < FEED_PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return {
+        publishedAt: last.published_at!,
+        id: last.id
+      };
+    },
+    // Nobody followed means nothing to fetch
+    enabled: !isFollowingFeed || followingIds.length > 0
+  });
+  const posts = useMemo(() => data?.pages.flat() ?? [], [data]);
+  const postIds = useMemo(() => posts.map(post => post.id), [posts]);
+  const {
+    data: reactionCounts
+  } = useReactionCounts(postIds);
+  const {
+    data: facets
+  } = useQuery({
+    queryKey: ['post-facets', isFollowingFeed ? followingIds : null],
+    queryFn: async () => {
+      const {
+        data,
+        error
+      } = await supabase.rpc('post_facets', isFollowingFeed ? {
+        _author_ids: followingIds
+      } : {});
+      if (error) throw error;
+      return data;
+    }
+  });
+  const allTags = useMemo(() => (facets ?? []).filter(facet => facet.kind === 'tag'), [facets]);
+  const allCategories = useMemo(() => (facets ?? []).filter(facet => facet.kind === 'category'), [facets]);
+
+  // Find the Getting Started guide for the welcome banner; it may be far down the feed
+  const {
+    data: gettingStartedSlug
+  } = useQuery({
+    queryKey: ['getting-started-slug'],
+    queryFn: async () => {
+      const {
+        data,
+        error
+      } = await supabase.from('posts').select('slug').eq('is_published', true).eq('is_hidden', false).or('tags.cs.{getting-started},title.ilike.%getting started%').limit(1).maybeSingle();
+      if (error) throw error;
+      return data?.slug;
     }
   });
-  const allTags = useMemo(() => {
-    if (!posts) return [] as string[];
-    const tagSet = new Set<string>();
-    posts.forEach(post => {
-      post.tags?.forEach(tag => tagSet.add(tag));
-    });
-    return Array.from(tagSet).sort((a, b) => a.localeCompare(b));
-  }, [posts]);
-  const allCategories = useMemo(() => {
-    if (!posts) return [] as string[];
-    const categorySet = new Set<string>();
-    posts.forEach(post => {
-      if (post.category) categorySet.add(post.category);
-    });
-    return Array.from(categorySet).sort((a, b) => a.localeCompare(b));
-  }, [posts]);
 
-  // Find the Getting Started guide for the welcome banner
-  const gettingStartedSlug = useMemo(() => {
-    if (!posts) return undefined;
-    const guide = posts.find(post => post.tags?.includes('getting-started') || post.title.toLowerCase().includes('getting started'));
-    return guide?.id;
-  }, [posts]);
-  const filteredPosts = useMemo(() => {
-    if (!posts) return [] as Post[];
-    return posts.filter(post => {
-      const matchesSearch = searchQuery ? post.title.toLowerCase().includes(searchQuery.toLowerCase()) || (post.excerpt || '').toLowerCase().includes(searchQuery.toLowerCase()) || post.content_markdown.toLowerCase().includes(searchQuery.toLowerCase()) : true;
-      const matchesTag = activeTag ? post.tags && post.tags.includes(activeTag) : true;
-      const matchesCategory = activeCategory ? post.category === activeCategory : true;
-      return matchesSearch && matchesTag && matchesCategory;
+  // Loads the next page as the end of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    }, {
+      rootMargin: '400px'
     });
-  }, [posts, searchQuery, activeTag, activeCategory]);
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
   return <Layout>
       <div className="container px-3 sm:px-4 py-8 sm:py-12">
         <div className="mx-auto max-w-4xl space-y-10">
@@ -152,11 +224,26 @@ export default function Index() {
 
           {/* Search & Filters */}
           <div className="space-y-5">
-            {/* Search input */}
-            <div className="relative">
+            {/* Feed switcher */}
+            {user && <Tabs value={feed} onValueChange={value => setFeed(value as Feed)}>
+                <TabsList className="rounded-full">
+                  <TabsTrigger value="latest" className="rounded-full px-4">
+                    Latest
+                  </TabsTrigger>
+                  <TabsTrigger value="following" className="rounded-full px-4">
+                    Following
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>}
+
+            {/* Search input; full-text search runs on the search page */}
+            <form role="search" className="relative" onSubmit={e => {
+            e.preventDefault();
+            navigate(searchQuery.trim() ? `/search?q=${encodeURIComponent(searchQuery.trim())}` : '/search');
+          }}>
               <Search className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-              <Input placeholder="Search posts..." className="h-11 rounded-full border-border bg-card pl-11 pr-4 text-sm shadow-sm transition-shadow focus-visible:shadow-md focus-visible:ring-1" value={searchQuery} onChange={e => setSearchQuery(e.target.value)} />
-            </div>
+              <Input type="search" placeholder="Search posts..." aria-label="Search posts" className="h-11 rounded-full border-border bg-card pl-11 pr-4 text-sm shadow-sm transition-shadow focus-visible:shadow-md focus-visible:ring-1" value={searchQuery} onChange={e => setSearchQuery(e.target.value)} />
+            </form>
 
             {/* Category & Tag Filters */}
             {(allCategories.length > 0 || allTags.length > 0) && <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:gap-6">
@@ -169,8 +256,12 @@ export default function Index() {
                       <button type="button" onClick={() => setActiveCategory(null)} className={`inline-flex items-center rounded-lg px-3 py-1.5 text-sm font-medium transition-all duration-200 ${activeCategory === null ? 'bg-primary text-primary-foreground shadow-sm' : 'bg-muted text-muted-foreground hover:bg-accent hover:text-foreground'}`}>
                         All
                       </button>
-                      {allCategories.map(category => <button key={category} type="button" onClick={() => setActiveCategory(current => current === category ? null : category)} className={`inline-flex items-center rounded-lg px-3 py-1.5 text-sm font-medium transition-all duration-200 ${activeCategory === category ? 'bg-primary text-primary-foreground shadow-sm' : 'bg-muted text-muted-foreground hover:bg-accent hover:text-foreground'}`}>
+                      {allCategories.map(({
+                    value: category,
+                    post_count
+                  }) => <button key={category} type="button" onClick={() => setActiveCategory(current => current === category ? null : category)} className={`inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium transition-all duration-200 ${activeCategory === category ? 'bg-primary text-primary-foreground shadow-sm' : 'bg-muted text-muted-foreground hover:bg-accent hover:text-foreground'}`}>
                           {category}
+                          <span className="text-xs tabular-nums opacity-70">{post_count}</span>
                         </button>)}
                     </div>
                   </div>}
@@ -184,23 +275,21 @@ export default function Index() {
                       <button type="button" onClick={() => setActiveTag(null)} className={`inline-flex items-center rounded-lg border px-3 py-1.5 text-sm font-medium transition-all duration-200 ${activeTag === null ? 'border-primary/50 bg-primary/10 text-primary' : 'border-border bg-background text-muted-foreground hover:border-primary/30 hover:text-foreground'}`}>
                         All
                       </button>
-                      {allTags.map(tag => <button key={tag} type="button" onClick={() => setActiveTag(current => current === tag ? null : tag)} className={`inline-flex items-center rounded-lg border px-3 py-1.5 text-sm font-medium transition-all duration-200 ${activeTag === tag ? 'border-primary/50 bg-primary/10 text-primary' : 'border-border bg-background text-muted-foreground hover:border-primary/30 hover:text-foreground'}`}>
+                      {allTags.map(({
+                    value: tag,
+                    post_count
+                  }) => <button key={tag} type="button" onClick={() => setActiveTag(current => current === tag ? null : tag)} className={`inline-flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-sm font-medium transition-all duration-200 ${activeTag === tag ? 'border-primary/50 bg-primary/10 text-primary' : 'border-border bg-background text-muted-foreground hover:border-primary/30 hover:text-foreground'}`}>
                           #{tag}
+                          <span className="text-xs tabular-nums opacity-70">{post_count}</span>
                         </button>)}
                     </div>
                   </div>}
               </div>}
 
             {/* Active filters indicator */}
-            {(activeCategory || activeTag || searchQuery) && <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            {(activeCategory || activeTag) && <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <span>Showing results for:</span>
                 <div className="flex flex-wrap gap-1.5">
-                  {searchQuery && <span className="inline-flex items-center gap-1 rounded-full bg-accent px-2.5 py-0.5 text-xs font-medium text-accent-foreground">
-                      "{searchQuery}"
-                      <button onClick={() => setSearchQuery('')} className="ml-0.5 hover:text-foreground">
-                        ×
-                      </button>
-                    </span>}
                   {activeCategory && <span className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary">
                       {activeCategory}
                       <button onClick={() => setActiveCategory(null)} className="ml-0.5 hover:text-primary/70">
@@ -214,8 +303,10 @@ export default function Index() {
                       </button>
                     </span>}
                 </div>
+                <Link to={activeTag ? getTagPath(activeTag) : getCategoryPath(activeCategory!)} className="text-xs font-medium text-primary hover:underline underline-offset-2">
+                  {activeTag ? `#${activeTag}` : activeCategory} page →
+                </Link>
                 <button onClick={() => {
-              setSearchQuery('');
               setActiveCategory(null);
               setActiveTag(null);
             }} className="text-xs text-muted-foreground hover:text-foreground underline underline-offset-2">
@@ -248,8 +339,9 @@ export default function Index() {
                     <Skeleton className="h-16 w-full" />
                   </CardContent>
                 </Card>)}
-            </div> : filteredPosts && filteredPosts.length > 0 ? <div className="grid gap-5 md:grid-cols-2">
-              {filteredPosts.map((post, index) => <Link key={post.id} to={`/post/${post.id}`}>
+            </div> : posts.length > 0 ? <div className="space-y-6">
+              <div className="grid gap-5 md:grid-cols-2">
+              {posts.map((post, index) => <Link key={post.id} to={getPostPath(post.slug)}>
                   <Card className="group h-full transition-all duration-300 hover:-translate-y-1.5 hover:shadow-lg hover:border-primary/30" style={{
               animationDelay: `${index * 50}ms`
             }}>
@@ -270,9 +362,12 @@ export default function Index() {
                               {tag}
                             </button>)}
                         </div>}
-                      <CardTitle className="line-clamp-2 text-base font-semibold font-display md:text-lg group-hover:text-primary transition-colors">
-                        {post.title}
-                      </CardTitle>
+                      <div className="flex items-start justify-between gap-2">
+                        <CardTitle className="line-clamp-2 text-base font-semibold font-display md:text-lg group-hover:text-primary transition-colors">
+                          {post.title}
+                        </CardTitle>
+                        <BookmarkButton postId={post.id} className="-mr-2 -mt-1 shrink-0" />
+                      </div>
                       <CardDescription className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
                         <AuthorCard authorId={post.author_id} displayName={post.profiles.display_name} avatarUrl={post.profiles.avatar_url} websiteUrl={post.profiles.website_url} twitterHandle={post.profiles.twitter_handle} instagramHandle={post.profiles.instagram_handle} tiktokHandle={post.profiles.tiktok_handle} compact />
                         {post.published_at && <span className="flex items-center gap-1">
@@ -282,8 +377,15 @@ export default function Index() {
                     })}
                           </span>}
                         <span className="text-[0.65rem] uppercase tracking-wide text-muted-foreground">
-                          {getReadingTimeMinutes(post.content_markdown)} min read
+                          {post.reading_time_minutes} min read
                         </span>
+                        {readingHistory[post.id] && (readingHistory[post.id].completed ? <span className="flex items-center gap-1 text-[0.65rem] font-medium uppercase tracking-wide text-emerald-600 dark:text-emerald-400">
+                              <CheckCircle2 className="h-3 w-3" />
+                              Read
+                            </span> : <span className="text-[0.65rem] font-medium uppercase tracking-wide text-primary">
+                              {readingHistory[post.id].progress}% read
+                            </span>)}
+                        <ReactionSummary counts={reactionCounts?.[post.id]} />
                       </CardDescription>
                     </CardHeader>
                     {post.excerpt && <CardContent className="px-3 pb-3 pt-0 md:px-4 md:pb-4">
@@ -293,7 +395,22 @@ export default function Index() {
                       </CardContent>}
                   </Card>
                 </Link>)}
-            </div> : <Card>
+              </div>
+              <div ref={loadMoreRef} className="flex justify-center">
+                {isFetchingNextPage ? <p className="text-sm text-muted-foreground">Loading more posts…</p> : hasNextPage ? <Button type="button" variant="outline" size="sm" onClick={() => fetchNextPage()} className="rounded-full px-4">
+                    Load more
+                  </Button> : posts.length > FEED_PAGE_SIZE && <p className="text-xs text-muted-foreground">You're all caught up.</p>}
+              </div>
+            </div> : isFollowingFeed && followingIds.length === 0 ? <Card>
+              <CardContent className="flex flex-col items-center justify-center gap-3 py-10 text-center">
+                <p className="text-sm text-muted-foreground">
+                  Follow authors to see their posts here.
+                </p>
+                <button type="button" onClick={() => setFeed('latest')} className="text-xs font-medium text-primary hover:underline sm:text-sm">
+                  Browse the latest posts →
+                </button>
+              </CardContent>
+            </Card> : <Card>
               <CardContent className="flex flex-col items-center justify-center gap-3 py-10">
                 <p className="text-sm text-muted-foreground">
                   No posts found. Try a different vibe.
@@ -323,6 +440,12 @@ export default function Index() {
                     queryClient.invalidateQueries({
                       queryKey: ['posts']
                     });
+                    queryClient.invalidateQueries({
+                      queryKey: ['post-facets']
+                    });
+                    queryClient.invalidateQueries({
+                      queryKey: ['getting-started-slug']
+                    });
                   }
                 } catch (error) {
                   console.error('Error seeding demo posts', error);
@@ -0,0 +1,624 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Ban, Eye, EyeOff, FileText, Flag, MessageCircle, ShieldCheck, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Layout } from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { getPostPath } from '@/lib/slug';
+import {
+  getReportReasonLabel,
+  moderate,
+  type ModerationAction,
+  type ReportStatus,
+  type ReportTargetType,
+} from '@/lib/moderation';
+
+interface Report {
+  id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reason: string;
+  details: string | null;
+  status: ReportStatus;
+  created_at: string;
+  reporter: { display_name: string } | null;
+}
+
+interface ReportTarget {
+  authorId: string;
+  authorName: string;
+  title: string;
+  preview: string;
+  href: string | null;
+  isHidden: boolean;
+}
+
+interface ReportGroup {
+  key: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  target: ReportTarget | null;
+  reports: Report[];
+}
+
+interface PendingAction {
+  action: ModerationAction;
+  targetType: ReportTargetType | 'user';
+  targetId: string;
+  reportId?: string;
+  title: string;
+  description: string;
+}
+
+type ReportView = 'open' | 'closed';
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  hide: 'Hid',
+  restore: 'Restored',
+  ban: 'Banned',
+  unban: 'Unbanned',
+  dismiss: 'Dismissed reports on',
+};
+
+const CONFIRM_LABELS: Record<ModerationAction, string> = {
+  hide: 'Hide',
+  restore: 'Restore',
+  ban: 'Ban user',
+  unban: 'Lift ban',
+  dismiss: 'Dismiss',
+};
+
+async function fetchReportGroups(view: ReportView): Promise<ReportGroup[]> {
+  let query = supabase
+    .from('content_reports')
+    .select(`
+      id,
+      target_type,
+      target_id,
+      reason,
+      details,
+      status,
+      created_at,
+      reporter:profiles!content_reports_reporter_id_fkey (
+        display_name
+      )
+    `)
+    .order('created_at', { ascending: view === 'open' })
+    .limit(200);
+
+  query = view === 'open' ? query.eq('status', 'open') : query.neq('status', 'open');
+
+  const { data, error } = await query;
+  if (error) throw error;
+  const reports = data as Report[];
+
+  const idsOf = (type: ReportTargetType) =>
+    Array.from(new Set(reports.filter((r) => r.target_type === type).map((r) => r.target_id)));
+  const postIds = idsOf('post');
+  const commentIds = idsOf('comment');
+
+  // Reports point at posts or comments, so the targets are loaded in two batches
+  const [postsResult, commentsResult] = await Promise.all([
+    postIds.length
+      ? supabase
+          .from('posts')
+          .select('id, slug, title, excerpt, author_id, is_hidden, profiles (display_name)')
+          .in('id', postIds)
+      : Promise.resolve({ data: [], error: null }),
+    commentIds.length
+      ? supabase
+          .from('comments')
+          .select('id, body, author_id, is_hidden, profiles (display_name), posts (slug, title)')
+          .in('id', commentIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (postsResult.error) throw postsResult.error;
+  if (commentsResult.error) throw commentsResult.error;
+
+  const targets = new Map<string, ReportTarget>();
+  postsResult.data?.forEach((post) => {
+    targets.set(`post:${post.id}`, {
+      authorId: post.author_id,
+      authorName: post.profiles?.display_name ?? 'Anonymous',
+      title: post.title,
+      preview: post.excerpt ?? '',
+      href: getPostPath(post.slug),
+      isHidden: post.is_hidden,
+    });
+  });
+  commentsResult.data?.forEach((comment) => {
+    targets.set(`comment:${comment.id}`, {
+      authorId: comment.author_id,
+      authorName: comment.profiles?.display_name ?? 'Anonymous',
+      title: comment.posts ? `Comment on “${comment.posts.title}”` : 'Comment',
+      preview: comment.body,
+      href: comment.posts ? `${getPostPath(comment.posts.slug)}#comments` : null,
+      isHidden: comment.is_hidden,
+    });
+  });
+
+  const groups = new Map<string, ReportGroup>();
+  reports.forEach((report) => {
+    const key = `${report.target_type}:${report.target_id}`;
+    const group = groups.get(key) ?? {
+      key,
+      targetType: report.target_type,
+      targetId: report.target_id,
+      target: targets.get(key) ?? null,
+      reports: [],
+    };
+    group.reports.push(report);
+    groups.set(key, group);
+  });
+
+  // Most-reported first so the loudest problems surface at the top
+  return Array.from(groups.values()).sort((a, b) => b.reports.length - a.reports.length);
+}
+
+function ReportGroupCard({
+  group,
+  onAction,
+}: {
+  group: ReportGroup;
+  onAction: (action: PendingAction) => void;
+}) {
+  const { target, targetType, targetId, reports } = group;
+  const openReport = reports.find((report) => report.status === 'open');
+  const TypeIcon = targetType === 'post' ? FileText : MessageCircle;
+
+  return (
+    <Card className="border-border/60 shadow-sm">
+      <CardHeader className="space-y-3 pb-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <span className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 font-medium uppercase tracking-[0.14em]">
+            <TypeIcon className="h-3 w-3" />
+            {targetType}
+          </span>
+          <span className="inline-flex items-center gap-1 rounded-full bg-destructive/10 px-2 py-0.5 font-medium text-destructive">
+            <Flag className="h-3 w-3" />
+            {reports.length} {reports.length === 1 ? 'report' : 'reports'}
+          </span>
+          {target?.isHidden && (
+            <span className="inline-flex items-center gap-1 rounded-full bg-amber-500/10 px-2 py-0.5 font-medium text-amber-600 dark:text-amber-400">
+              <EyeOff className="h-3 w-3" />
+              Hidden
+            </span>
+          )}
+        </div>
+
+        {target ? (
+          <div className="space-y-1">
+            <p className="font-display text-base font-semibold leading-snug">
+              {target.href ? (
+                <Link to={target.href} className="hover:text-primary" target="_blank" rel="noreferrer">
+                  {target.title}
+                </Link>
+              ) : (
+                target.title
+              )}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              by{' '}
+              <Link to={`/author/${target.authorId}`} className="font-medium text-foreground hover:text-primary">
+                {target.authorName}
+              </Link>
+            </p>
+            {target.preview && (
+              <p className="line-clamp-3 whitespace-pre-line rounded-lg bg-muted/40 px-3 py-2 text-sm text-muted-foreground">
+                {target.preview}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This {targetType} has been deleted.</p>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <ul className="space-y-2 border-t border-border/50 pt-3">
+          {reports.map((report) => (
+            <li key={report.id} className="text-sm">
+              <div className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{getReportReasonLabel(report.reason)}</span>
+                <span>·</span>
+                <span>{report.reporter?.display_name ?? 'Unknown reader'}</span>
+                <span>·</span>
+                <span>{formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}</span>
+                {report.status !== 'open' && (
+                  <span className="rounded-full bg-muted px-1.5 py-0.5 text-[0.65rem] uppercase tracking-wide">
+                    {report.status}
+                  </span>
+                )}
+              </div>
+              {report.details && <p className="mt-0.5 text-sm text-muted-foreground">{report.details}</p>}
+            </li>
+          ))}
+        </ul>
+
+        {target && (
+          <div className="flex flex-wrap gap-2">
+            {target.isHidden ? (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5 rounded-full"
+                onClick={() =>
+                  onAction({
+                    action: 'restore',
+                    targetType,
+                    targetId,
+                    title: `Restore this ${targetType}?`,
+                    description: 'It becomes visible to readers again.',
+                  })
+                }
+              >
+                <Eye className="h-3.5 w-3.5" />
+                Restore
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5 rounded-full"
+                onClick={() =>
+                  onAction({
+                    action: 'hide',
+                    targetType,
+                    targetId,
+                    title: `Hide this ${targetType}?`,
+                    description: 'Readers will no longer see it. The author still can. Open reports on it are resolved.',
+                  })
+                }
+              >
+                <EyeOff className="h-3.5 w-3.5" />
+                Hide
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1.5 rounded-full text-destructive hover:text-destructive"
+              onClick={() =>
+                onAction({
+                  action: 'ban',
+                  targetType: 'user',
+                  targetId: target.authorId,
+                  reportId: openReport?.id,
+                  title: `Ban ${target.authorName}?`,
+                  description: 'They will no longer be able to publish posts, comment or file reports.',
+                })
+              }
+            >
+              <Ban className="h-3.5 w-3.5" />
+              Ban author
+            </Button>
+            {openReport && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1.5 rounded-full text-muted-foreground"
+                onClick={() =>
+                  onAction({
+                    action: 'dismiss',
+                    targetType,
+                    targetId,
+                    title: 'Dismiss these reports?',
+                    description: `The ${targetType} stays as it is and its open reports are closed.`,
+                  })
+                }
+              >
+                <XCircle className="h-3.5 w-3.5" />
+                Dismiss
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ListSkeleton() {
+  return (
+    <div className="space-y-4">
+      {[1, 2, 3].map((i) => (
+        <Skeleton key={i} className="h-40 w-full rounded-xl" />
+      ))}
+    </div>
+  );
+}
+
+function EmptyState({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="rounded-xl border border-dashed border-border/70 px-6 py-12 text-center text-sm text-muted-foreground">
+      {children}
+    </div>
+  );
+}
+
+export default function Moderation() {
+  const queryClient = useQueryClient();
+  const [reportView, setReportView] = useState<ReportView>('open');
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [note, setNote] = useState('');
+
+  const {
+    data: reportGroups,
+    isLoading: reportsLoading,
+    isError: reportsError,
+    refetch: refetchReports,
+  } = useQuery({
+    queryKey: ['moderation-reports', reportView],
+    queryFn: () => fetchReportGroups(reportView),
+  });
+
+  const { data: bans, isLoading: bansLoading } = useQuery({
+    queryKey: ['moderation-bans'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_bans')
+        .select(`
+          user_id,
+          reason,
+          created_at,
+          user:profiles!user_bans_user_id_fkey (display_name),
+          moderator:profiles!user_bans_banned_by_fkey (display_name)
+        `)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: log, isLoading: logLoading } = useQuery({
+    queryKey: ['moderation-log'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('moderation_actions')
+        .select(`
+          id,
+          action,
+          target_type,
+          target_id,
+          note,
+          created_at,
+          moderator:profiles!moderation_actions_moderator_id_fkey (display_name)
+        `)
+        .order('created_at', { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: (action: PendingAction) =>
+      moderate({
+        action: action.action,
+        targetType: action.targetType,
+        targetId: action.targetId,
+        reportId: action.reportId,
+        note: note.trim() || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['moderation-reports'] });
+      queryClient.invalidateQueries({ queryKey: ['moderation-bans'] });
+      queryClient.invalidateQueries({ queryKey: ['moderation-log'] });
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      queryClient.invalidateQueries({ queryKey: ['comments'] });
+      toast.success('Moderation action recorded');
+      setPendingAction(null);
+      setNote('');
+    },
+    onError: (error) => {
+      console.error('Error applying moderation action', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to apply moderation action');
+    },
+  });
+
+  const openReportCount = reportView === 'open' ? reportGroups?.length ?? 0 : null;
+
+  return (
+    <Layout>
+      <div className="container px-3 sm:px-4 py-8 md:py-12">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div className="space-y-2 animate-fade-in">
+            <h1 className="flex items-center gap-3 font-display text-2xl font-semibold tracking-tight sm:text-3xl md:text-4xl">
+              <ShieldCheck className="h-7 w-7 text-primary" />
+              Moderation
+            </h1>
+            <p className="text-sm text-muted-foreground sm:text-base">
+              Review reported posts and comments. Every action is recorded in the activity log.
+            </p>
+          </div>
+
+          <Tabs defaultValue="reports" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="reports">
+                Reports{openReportCount ? ` (${openReportCount})` : ''}
+              </TabsTrigger>
+              <TabsTrigger value="bans">Banned users</TabsTrigger>
+              <TabsTrigger value="log">Activity log</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="reports" className="space-y-4">
+              <div className="flex justify-end">
+                <Select value={reportView} onValueChange={(value) => setReportView(value as ReportView)}>
+                  <SelectTrigger className="h-9 w-40 rounded-full text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="open">Open</SelectItem>
+                    <SelectItem value="closed">Resolved</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {reportsLoading ? (
+                <ListSkeleton />
+              ) : reportsError ? (
+                <div className="space-y-3 py-10 text-center">
+                  <p className="text-sm text-muted-foreground">Couldn't load reports.</p>
+                  <Button variant="outline" size="sm" onClick={() => refetchReports()}>
+                    Try again
+                  </Button>
+                </div>
+              ) : reportGroups && reportGroups.length > 0 ? (
+                reportGroups.map((group) => (
+                  <ReportGroupCard key={group.key} group={group} onAction={setPendingAction} />
+                ))
+              ) : (
+                <EmptyState>
+                  {reportView === 'open' ? 'The queue is clear. Nothing needs review.' : 'No resolved reports yet.'}
+                </EmptyState>
+              )}
+            </TabsContent>
+
+            <TabsContent value="bans">
+              {bansLoading ? (
+                <ListSkeleton />
+              ) : bans && bans.length > 0 ? (
+                <Card className="border-border/60 shadow-sm">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-xs font-medium uppercase tracking-[0.18em] text-muted-foreground">User</TableHead>
+                        <TableHead className="text-xs font-medium uppercase tracking-[0.18em] text-muted-foreground">Reason</TableHead>
+                        <TableHead className="text-xs font-medium uppercase tracking-[0.18em] text-muted-foreground">Banned</TableHead>
+                        <TableHead className="text-right" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {bans.map((ban) => (
+                        <TableRow key={ban.user_id}>
+                          <TableCell>
+                            <Link to={`/author/${ban.user_id}`} className="font-medium hover:text-primary">
+                              {ban.user?.display_name ?? 'Unknown user'}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{ban.reason || '—'}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {format(new Date(ban.created_at), 'MMM d, yyyy')}
+                            {ban.moderator && <> by {ban.moderator.display_name}</>}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="rounded-full"
+                              onClick={() =>
+                                setPendingAction({
+                                  action: 'unban',
+                                  targetType: 'user',
+                                  targetId: ban.user_id,
+                                  title: `Lift the ban on ${ban.user?.display_name ?? 'this user'}?`,
+                                  description: 'They will be able to publish, comment and report again.',
+                                })
+                              }
+                            >
+                              Lift ban
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Card>
+              ) : (
+                <EmptyState>No one is banned.</EmptyState>
+              )}
+            </TabsContent>
+
+            <TabsContent value="log">
+              {logLoading ? (
+                <ListSkeleton />
+              ) : log && log.length > 0 ? (
+                <Card className="border-border/60 shadow-sm">
+                  <ul className="divide-y divide-border/50">
+                    {log.map((entry) => (
+                      <li key={entry.id} className="flex flex-col gap-1 px-4 py-3 sm:flex-row sm:items-center sm:justify-between">
+                        <div className="text-sm">
+                          <span className="font-medium">{entry.moderator?.display_name ?? 'A former moderator'}</span>{' '}
+                          <span className="text-muted-foreground">
+                            {(ACTION_LABELS[entry.action as ModerationAction] ?? entry.action).toLowerCase()} a {entry.target_type}
+                          </span>
+                          {entry.note && <p className="mt-0.5 text-xs text-muted-foreground">“{entry.note}”</p>}
+                        </div>
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </Card>
+              ) : (
+                <EmptyState>No moderation actions yet.</EmptyState>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      <AlertDialog
+        open={!!pendingAction}
+        onOpenChange={(open) => {
+          if (!open && !actionMutation.isPending) {
+            setPendingAction(null);
+            setNote('');
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingAction?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{pendingAction?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for the activity log (optional)"
+            rows={2}
+            className="resize-none text-sm"
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={actionMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (pendingAction) actionMutation.mutate(pendingAction);
+              }}
+              disabled={actionMutation.isPending}
+              className={
+                pendingAction?.action === 'ban'
+                  ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90'
+                  : undefined
+              }
+            >
+              {actionMutation.isPending ? 'Saving…' : pendingAction ? CONFIRM_LABELS[pendingAction.action] : ''}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+}
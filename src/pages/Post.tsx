@@ -5,14 +5,24 @@ import { Layout } from '@/components/Layout';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useAuth } from '@/contexts/AuthContext';
-import ReactMarkdown from 'react-markdown';
 import { formatDistanceToNow } from 'date-fns';
-import { ArrowLeft, Calendar, User, Edit, Globe2, Instagram, Twitter, Music2, Trash2 } from 'lucide-react';
+import { ArrowLeft, Calendar, User, Edit, Globe2, Instagram, Twitter, Music2, Trash2, Flag, EyeOff, BookmarkCheck, X } from 'lucide-react';
 import { ShareButtons } from '@/components/ShareButtons';
+import { CommentThread } from '@/components/CommentThread';
+import { ReportDialog } from '@/components/ReportDialog';
+import { PostReferences } from '@/components/PostReferences';
+import { BookmarkButton } from '@/components/BookmarkButton';
+import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+import { ReactionBar } from '@/components/ReactionBar';
 import { getReadingTimeMinutes } from '@/lib/readingTime';
+import { siteNameFromUrl } from '@/lib/references';
 import { useReadingProgress } from '@/hooks/use-reading-progress';
+import { useTableOfContents } from '@/hooks/use-table-of-contents';
+import { READ_THRESHOLD, useReadingHistory, useSaveReadingProgress } from '@/hooks/use-reading-history';
+import { TableOfContents } from '@/components/TableOfContents';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { getCategoryPath, getPostPath, getTagPath, isPostId } from '@/lib/slug';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,15 +34,23 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
+import { useDocumentHead } from '@/hooks/use-document-head';
 
 interface Post {
   id: string;
+  slug: string;
   title: string;
+  excerpt: string | null;
   content_markdown: string;
   published_at: string | null;
   author_id: string;
   category: string | null;
   tags: string[];
+  is_hidden: boolean;
+  canonical_url: string | null;
+  meta_title: string | null;
+  meta_description: string | null;
+  og_image_url: string | null;
   profiles: {
     display_name: string;
     bio: string | null;
@@ -44,12 +62,39 @@ interface Post {
   } | null;
 }
 
+const POST_SELECT = `
+  id,
+  slug,
+  title,
+  excerpt,
+  content_markdown,
+  published_at,
+  author_id,
+  category,
+  tags,
+  is_hidden,
+  canonical_url,
+  meta_title,
+  meta_description,
+  og_image_url,
+  profiles (
+    display_name,
+    bio,
+    avatar_url,
+    website_url,
+    twitter_handle,
+    instagram_handle,
+    tiktok_handle
+  )
+`;
+
 export default function Post() {
-  const { id } = useParams<{ id: string }>();
+  const { slug } = useParams<{ slug: string }>();
   const { user } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
 
   const deleteMutation = useMutation({
     mutationFn: async () => {
@@ -60,7 +105,7 @@ export default function Post() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['posts'] });
       queryClient.invalidateQueries({ queryKey: ['user-posts'] });
-      queryClient.invalidateQueries({ queryKey: ['post', id] });
+      queryClient.invalidateQueries({ queryKey: ['post', slug] });
 
       toast({
         title: 'Post deleted',
@@ -87,40 +132,105 @@ export default function Post() {
     error,
     refetch,
   } = useQuery({
-    queryKey: ['post', id],
+    queryKey: ['post', slug],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('posts')
-        .select(`
-          id,
-          title,
-          content_markdown,
-          published_at,
-          author_id,
-          category,
-          tags,
-          profiles (
-            display_name,
-            bio,
-            avatar_url,
-            website_url,
-            twitter_handle,
-            instagram_handle,
-            tiktok_handle
-          )
-        `)
-        .eq('id', id)
-        .single();
+        .select(POST_SELECT)
+        .eq(isPostId(slug!) ? 'id' : 'slug', slug!)
+        .maybeSingle();
 
       if (error) throw error;
-      return data as Post;
+      if (data) return data as Post;
+
+      // Not a current slug: follow the post's slug history to where it lives now
+      const { data: previous, error: historyError } = await supabase
+        .from('post_slug_history')
+        .select('post_id')
+        .eq('slug', slug!)
+        .maybeSingle();
+
+      if (historyError) throw historyError;
+      if (!previous) return null;
+
+      const { data: renamed, error: renamedError } = await supabase
+        .from('posts')
+        .select(POST_SELECT)
+        .eq('id', previous.post_id)
+        .maybeSingle();
+
+      if (renamedError) throw renamedError;
+      return renamed as Post | null;
     },
-    enabled: !!id,
+    enabled: !!slug,
   });
 
+  // Old ids and renamed slugs are replaced by the canonical URL, like a 301
+  useEffect(() => {
+    if (post && post.slug !== slug) {
+      queryClient.setQueryData(['post', post.slug], post);
+      navigate(getPostPath(post.slug), { replace: true });
+    }
+  }, [post, slug, navigate, queryClient]);
+
+  const { data: sources } = useQuery({
+    queryKey: ['post-sources', post?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('post_sources')
+        .select('url, title, site_name')
+        .eq('post_id', post!.id);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!post,
+  });
+
+  const canonicalSource = sources?.find((source) => source.url === post?.canonical_url);
   const isAuthor = user?.id === post?.author_id;
   const readingTimeMinutes = post ? getReadingTimeMinutes(post.content_markdown) : null;
   const progress = useReadingProgress('post-content');
+  const { headings, activeId } = useTableOfContents('post-content', post?.content_markdown);
+  const readingHistory = useReadingHistory();
+  useSaveReadingProgress(post?.id, progress);
+  useDocumentHead(
+    post
+      ? {
+          title: post.meta_title || `${post.title} · QuillScroll`,
+          description: post.meta_description || post.excerpt,
+          canonicalUrl: post.canonical_url,
+          image: post.og_image_url,
+          type: 'article',
+        }
+      : null,
+  );
+
+  // Captured once per post so saving the new position doesn't move the offer around
+  const [resume, setResume] = useState<{ postId: string; progress: number | null } | null>(null);
+  const savedProgress = post ? readingHistory[post.id] : undefined;
+  useEffect(() => {
+    if (!post || !savedProgress || resume?.postId === post.id) return;
+    setResume({ postId: post.id, progress: savedProgress.progress });
+  }, [post, savedProgress, resume?.postId]);
+
+  const resumeFrom =
+    resume?.postId === post?.id && resume?.progress != null && resume.progress >= 5 && resume.progress < READ_THRESHOLD
+      ? resume.progress
+      : null;
+  const showResume = resumeFrom !== null && progress < resumeFrom - 2;
+
+  const dismissResume = () => setResume((prev) => prev && { ...prev, progress: null });
+
+  // Inverse of useReadingProgress: scroll until the article is resumeFrom% of the way through
+  const handleResume = () => {
+    const target = document.getElementById('post-content');
+    if (!target || resumeFrom === null) return;
+    const rect = target.getBoundingClientRect();
+    const total = rect.height - window.innerHeight;
+    window.scrollTo({ top: window.scrollY + rect.top + (total * resumeFrom) / 100, behavior: 'smooth' });
+    dismissResume();
+  };
 
   return (
     <Layout>
@@ -171,14 +281,26 @@ export default function Post() {
               </div>
             </div>
           ) : post ? (
-            <article className="animate-fade-in">
+            <article className="relative animate-fade-in">
+              <TableOfContents headings={headings} activeId={activeId} />
+
+              {post.is_hidden && (
+                <div className="mb-8 flex items-start gap-3 rounded-xl border border-destructive/30 bg-destructive/5 px-4 py-3 text-sm text-destructive">
+                  <EyeOff className="mt-0.5 h-4 w-4 shrink-0" />
+                  <p>This post has been hidden by moderators. Only you and the moderation team can see it.</p>
+                </div>
+              )}
+
               {/* Header */}
               <header className="mb-10 space-y-6">
                 {/* Category badge */}
                 {post.category && (
-                  <span className="inline-block rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary">
+                  <Link
+                    to={getCategoryPath(post.category)}
+                    className="inline-block rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary transition-colors hover:bg-primary/20"
+                  >
                     {post.category}
-                  </span>
+                  </Link>
                 )}
 
                 {/* Title */}
@@ -212,12 +334,13 @@ export default function Post() {
                 {post.tags && post.tags.length > 0 && (
                   <div className="flex flex-wrap gap-2 pt-2">
                     {post.tags.map((tag) => (
-                      <span
+                      <Link
                         key={tag}
-                        className="rounded-full border border-border bg-muted/50 px-2.5 py-0.5 text-xs text-muted-foreground"
+                        to={getTagPath(tag)}
+                        className="rounded-full border border-border bg-muted/50 px-2.5 py-0.5 text-xs text-muted-foreground transition-colors hover:border-primary/40 hover:text-foreground"
                       >
                         {tag}
-                      </span>
+                      </Link>
                     ))}
                   </div>
                 )}
@@ -249,13 +372,68 @@ export default function Post() {
                       </Button>
                     </div>
                   )}
+
+                  {!isAuthor && (
+                    <div className="flex items-center gap-2">
+                      <BookmarkButton postId={post.id} showLabel />
+                      {user && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-2 text-muted-foreground hover:text-foreground"
+                          onClick={() => setIsReportOpen(true)}
+                        >
+                          <Flag className="h-4 w-4" />
+                          <span className="hidden sm:inline">Report</span>
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </div>
               </header>
 
+              {showResume && (
+                <div className="mb-8 flex items-center justify-between gap-3 rounded-xl border border-primary/30 bg-primary/5 px-4 py-3 text-sm">
+                  <button
+                    type="button"
+                    onClick={handleResume}
+                    className="flex items-center gap-2 font-medium text-primary hover:underline"
+                  >
+                    <BookmarkCheck className="h-4 w-4" />
+                    Continue where you left off ({resumeFrom}%)
+                  </button>
+                  <button
+                    type="button"
+                    onClick={dismissResume}
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label="Dismiss"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+
               {/* Content */}
-              <div id="post-content" className="post-prose">
-                <ReactMarkdown>{post.content_markdown}</ReactMarkdown>
-              </div>
+              <MarkdownRenderer id="post-content" content={post.content_markdown} />
+
+              <PostReferences markdown={post.content_markdown} sources={sources ?? []} />
+
+              {post.canonical_url && (
+                <p className="mt-10 text-sm italic text-muted-foreground">
+                  Originally published at{' '}
+                  <a
+                    href={post.canonical_url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="underline underline-offset-4 hover:text-foreground"
+                  >
+                    {canonicalSource?.site_name || siteNameFromUrl(post.canonical_url)}
+                  </a>
+                  .
+                </p>
+              )}
+
+              <ReactionBar postId={post.id} className="mt-12" />
 
               {/* Author card */}
               <footer className="mt-16 pt-8 border-t border-border/50">
@@ -335,6 +513,12 @@ export default function Post() {
                 </div>
               </footer>
 
+              <CommentThread postId={post.id} postAuthorId={post.author_id} />
+
+              {user && !isAuthor && (
+                <ReportDialog targetType="post" targetId={post.id} open={isReportOpen} onOpenChange={setIsReportOpen} />
+              )}
+
               {/* Delete dialog */}
               <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
                 <AlertDialogContent>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
@@ -10,12 +10,32 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { toast } from 'sonner';
-import { ArrowLeft, Save, Eye, Sparkles } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
+import { ArrowLeft, Save, Eye, Sparkles, History, Download, BookOpen, ChevronDown } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { PostHistoryPanel, PostRevision } from '@/components/PostHistoryPanel';
+import { PostConflictDialog, ServerPostCopy } from '@/components/PostConflictDialog';
+import {
+  usePostAutosave,
+  getDraftStorageKey,
+  readLocalDraft,
+  clearLocalDraft,
+  serializeDraft,
+  PostDraftValues,
+  PersistResult,
+} from '@/hooks/use-post-autosave';
+import { format, formatDistanceToNow } from 'date-fns';
+import { SchedulePicker } from '@/components/SchedulePicker';
+import { generateSlug, getUniqueSlug } from '@/lib/slug';
+import { ImportFromUrlDialog } from '@/components/ImportFromUrlDialog';
+import { normalizeUrl, type ImportedPost } from '@/lib/importPost';
+import { ResearchPanel, type ResearchSource } from '@/components/ResearchPanel';
+import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+import { extractLinks, syncPostSources, type SourceMetadata } from '@/lib/references';
+import { cn } from '@/lib/utils';
 
 const postSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
@@ -27,14 +47,71 @@ const postSchema = z.object({
 
 type PostFormData = z.infer<typeof postSchema>;
 
+// The database only checks the scheme, so anything the URL parser rejects is caught here
+const canonicalUrlSchema = z.string().refine((value) => {
+  if (!value.trim()) return true;
+  try {
+    new URL(normalizeUrl(value));
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Enter a full link, like https://example.com/post');
+
+// Kept in line with the length checks on the posts table
+const META_TITLE_MAX = 70;
+const META_DESCRIPTION_MAX = 160;
+
+type SeoFields = {
+  metaTitle: string;
+  metaDescription: string;
+  ogImageUrl: string;
+};
+
+const EMPTY_SEO: SeoFields = { metaTitle: '', metaDescription: '', ogImageUrl: '' };
+
+const parseTags = (tags?: string) =>
+  tags
+    ? tags
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    : [];
+
+const toDraftValues = (post: Omit<ServerPostCopy, 'updated_at'>): PostDraftValues => ({
+  title: post.title,
+  excerpt: post.excerpt || '',
+  content_markdown: post.content_markdown,
+  tags: Array.isArray(post.tags) ? post.tags.join(', ') : '',
+  category: post.category || '',
+});
+
 export default function PostEditor() {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState<'write' | 'preview'>('write');
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isResearchOpen, setIsResearchOpen] = useState(false);
+  const [canonicalUrl, setCanonicalUrl] = useState('');
+  const [canonicalUrlError, setCanonicalUrlError] = useState<string | null>(null);
+  const [seo, setSeo] = useState<SeoFields>(EMPTY_SEO);
+  const [isSeoOpen, setIsSeoOpen] = useState(false);
+  // Metadata Firecrawl returned for links brought in this session, keyed by URL
+  const [sources, setSources] = useState<Record<string, SourceMetadata>>({});
+  const [scheduledFor, setScheduledFor] = useState<Date | null>(null);
+  const [conflict, setConflict] = useState<{ server: ServerPostCopy; publish: boolean | null } | null>(null);
 
   const isEditMode = !!id;
+  const storageKey = getDraftStorageKey(id);
+  const [isFormReady, setIsFormReady] = useState(!isEditMode);
+  // updated_at of the server version this editor is based on, for optimistic concurrency
+  const baseUpdatedAtRef = useRef<string | null>(null);
+  const conflictRef = useRef(false);
+  const hasCheckedLocalDraftRef = useRef(false);
+  const contentTextareaRef = useRef<HTMLTextAreaElement | null>(null);
 
   const { data: existingPost } = useQuery({
     queryKey: ['post', id],
@@ -50,6 +127,8 @@ export default function PostEditor() {
       return data;
     },
     enabled: isEditMode && !!user,
+    // Refetching would reset the form under the writer; conflicts are caught on save instead
+    refetchOnWindowFocus: false,
   });
 
   const {
@@ -62,32 +141,73 @@ export default function PostEditor() {
     resolver: zodResolver(postSchema),
   });
 
+  const applyDraftValues = useCallback(
+    (values: PostDraftValues, options?: { shouldDirty: boolean }) => {
+      setValue('title', values.title ?? '', options);
+      setValue('excerpt', values.excerpt ?? '', options);
+      setValue('content_markdown', values.content_markdown ?? '', options);
+      setValue('tags', values.tags ?? '', options);
+      setValue('category', values.category ?? '', options);
+    },
+    [setValue],
+  );
+
+  useEffect(() => {
+    if (existingPost && !isFormReady) {
+      applyDraftValues(toDraftValues(existingPost));
+      baseUpdatedAtRef.current = existingPost.updated_at;
+      setScheduledFor(existingPost.scheduled_for ? new Date(existingPost.scheduled_for) : null);
+      setCanonicalUrl(existingPost.canonical_url ?? '');
+      setSeo({
+        metaTitle: existingPost.meta_title ?? '',
+        metaDescription: existingPost.meta_description ?? '',
+        ogImageUrl: existingPost.og_image_url ?? '',
+      });
+      setIsFormReady(true);
+    }
+  }, [existingPost, isFormReady, applyDraftValues]);
+
+  // Offer to bring back edits from an earlier session that never reached the server
   useEffect(() => {
-    if (existingPost) {
-      setValue('title', existingPost.title);
-      setValue('excerpt', existingPost.excerpt || '');
-      setValue('content_markdown', existingPost.content_markdown);
-      setValue('tags', Array.isArray(existingPost.tags) ? existingPost.tags.join(', ') : '');
-      setValue('category', existingPost.category || '');
+    if (!isFormReady || hasCheckedLocalDraftRef.current) return;
+    hasCheckedLocalDraftRef.current = true;
+
+    const localDraft = readLocalDraft(storageKey);
+    if (!localDraft) return;
+
+    const isSameAsServer =
+      serializeDraft(localDraft.values) === serializeDraft(existingPost ? toDraftValues(existingPost) : {});
+    const isStale = !!existingPost && new Date(localDraft.savedAt) <= new Date(existingPost.updated_at);
+    if (isSameAsServer || isStale) {
+      clearLocalDraft(storageKey);
+      return;
     }
-  }, [existingPost, setValue]);
 
-  const createSlug = (title: string) => {
-    return title
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/(^-|-$)/g, '');
+    toast('You have unsaved changes from an earlier session', {
+      description: `Last edited ${formatDistanceToNow(new Date(localDraft.savedAt), { addSuffix: true })}`,
+      duration: 15000,
+      action: {
+        label: 'Restore',
+        onClick: () => applyDraftValues(localDraft.values, { shouldDirty: true }),
+      },
+    });
+  }, [isFormReady, storageKey, existingPost, applyDraftValues]);
+
+  const openConflict = async (publish: boolean | null) => {
+    conflictRef.current = true;
+    const { data, error } = await supabase
+      .from('posts')
+      .select('title, excerpt, content_markdown, tags, category, updated_at')
+      .eq('id', id)
+      .single();
+    if (error) throw error;
+    setConflict({ server: data, publish });
   };
 
   const saveMutation = useMutation({
-    mutationFn: async (data: PostFormData & { is_published: boolean }) => {
-      const slug = createSlug(data.title);
-      const tagsArray = data.tags
-        ? data.tags
-            .split(',')
-            .map((tag) => tag.trim())
-            .filter(Boolean)
-        : [];
+    mutationFn: async (data: PostFormData & { is_published: boolean; scheduled_for: string | null }) => {
+      const slug = await getUniqueSlug(generateSlug(data.title), id);
+      const tagsArray = parseTags(data.tags);
       const category = data.category?.trim() || null;
 
       const postData = {
@@ -98,28 +218,72 @@ export default function PostEditor() {
         author_id: user!.id,
         is_published: data.is_published,
         published_at: data.is_published ? new Date().toISOString() : null,
+        scheduled_for: data.scheduled_for,
+        canonical_url: canonicalUrl.trim() ? normalizeUrl(canonicalUrl) : null,
+        meta_title: seo.metaTitle.trim() || null,
+        meta_description: seo.metaDescription.trim() || null,
+        og_image_url: seo.ogImageUrl.trim() ? normalizeUrl(seo.ogImageUrl) : null,
         tags: tagsArray,
         category,
       };
 
+      // Let an in-flight autosave land first so it doesn't look like a conflict
+      await waitForAutosave();
+
+      let postId = id;
       if (isEditMode) {
-        const { error } = await supabase
+        const { data: updated, error } = await supabase
           .from('posts')
           .update(postData)
-          .eq('id', id);
+          .eq('id', id)
+          .eq('updated_at', baseUpdatedAtRef.current!)
+          .select('updated_at');
         if (error) throw error;
+        if (!updated?.length) {
+          await openConflict(data.is_published);
+          return { conflict: true };
+        }
       } else {
-        const { error } = await supabase.from('posts').insert([postData]);
+        const { data: inserted, error } = await supabase
+          .from('posts')
+          .insert([postData])
+          .select('id')
+          .single();
         if (error) throw error;
+        postId = inserted.id;
       }
+
+      // Snapshot every save so earlier versions can be compared and restored
+      const { error: revisionError } = await supabase.from('post_revisions').insert({
+        post_id: postId!,
+        author_id: user!.id,
+        title: postData.title,
+        excerpt: postData.excerpt,
+        content_markdown: postData.content_markdown,
+        tags: tagsArray,
+        category,
+      });
+      if (revisionError) {
+        console.error('Error saving post revision', revisionError);
+      }
+
+      await saveSources(postId!, postData.content_markdown);
+
+      return { conflict: false };
     },
-    onSuccess: (_, variables) => {
+    onSuccess: (result, variables) => {
+      if (result.conflict) return;
+
+      clearLocalDraft(storageKey);
       queryClient.invalidateQueries({ queryKey: ['user-posts'] });
       queryClient.invalidateQueries({ queryKey: ['posts'] });
+      queryClient.invalidateQueries({ queryKey: ['post-revisions', id] });
       toast.success(
         variables.is_published
           ? 'Post published successfully!'
-          : 'Post saved as draft'
+          : variables.scheduled_for
+            ? `Post scheduled for ${format(new Date(variables.scheduled_for), "MMM d 'at' HH:mm")}`
+            : 'Post saved as draft'
       );
       navigate('/dashboard');
     },
@@ -128,10 +292,186 @@ export default function PostEditor() {
     },
   });
 
+  // "Publish" with a schedule set queues the post instead; saving a draft clears the schedule
   const onSubmit = (data: PostFormData, isPublished: boolean) => {
-    saveMutation.mutate({ ...data, is_published: isPublished });
+    const canonicalCheck = canonicalUrlSchema.safeParse(canonicalUrl);
+    if (!canonicalCheck.success) {
+      setCanonicalUrlError(canonicalCheck.error.issues[0].message);
+      toast.error('Check the "Originally published at" link');
+      return;
+    }
+    if (isPublished && scheduledFor) {
+      if (scheduledFor.getTime() <= Date.now()) {
+        toast.error('Pick a publish time in the future');
+        return;
+      }
+      saveMutation.mutate({ ...data, is_published: false, scheduled_for: scheduledFor.toISOString() });
+      return;
+    }
+    saveMutation.mutate({ ...data, is_published: isPublished, scheduled_for: null });
+  };
+
+  const canSchedule = !existingPost?.is_published;
+
+  const rememberSource = (url: string, source: SourceMetadata) =>
+    setSources((prev) => ({ ...prev, [url]: source }));
+
+  // Best effort: a missing title in the reference list isn't worth failing a save over
+  const saveSources = async (postId: string, content: string) => {
+    const urls = extractLinks(content).map((link) => link.url);
+    if (canonicalUrl.trim()) urls.push(normalizeUrl(canonicalUrl));
+    try {
+      await syncPostSources(postId, urls, sources);
+    } catch (error) {
+      console.error('Error saving post sources', error);
+    }
+  };
+
+  const handleImport = (imported: ImportedPost) => {
+    applyDraftValues(
+      {
+        title: imported.title,
+        excerpt: imported.excerpt,
+        content_markdown: imported.content_markdown,
+        tags: watch('tags'),
+        category: watch('category'),
+      },
+      { shouldDirty: true },
+    );
+    setCanonicalUrl(imported.canonicalUrl);
+    rememberSource(imported.canonicalUrl, { title: imported.title, siteName: imported.siteName, fetchedVia: 'scrape' });
+    setActiveTab('preview');
+    toast.success('Imported. Review it, then save or publish.');
+  };
+
+  // Splice a research snippet in at the writer's cursor, or at the end when the
+  // preview tab is showing and there is no cursor to use
+  const handleInsertResearch = (snippet: string, { block, source }: { block: boolean; source: ResearchSource }) => {
+    const content = watch('content_markdown') ?? '';
+    const textarea = contentTextareaRef.current;
+    const start = textarea ? textarea.selectionStart : content.length;
+    const end = textarea ? textarea.selectionEnd : content.length;
+    const before = content.slice(0, start);
+    const after = content.slice(end);
+
+    let insertion = snippet;
+    if (block) {
+      const lead = !before || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+      const trail = !after || after.startsWith('\n\n') ? '' : after.startsWith('\n') ? '\n' : '\n\n';
+      insertion = `${lead}${snippet}${trail}`;
+    } else if (before && !/\s$/.test(before)) {
+      insertion = ` ${snippet}`;
+    }
+
+    setValue('content_markdown', before + insertion + after, { shouldDirty: true, shouldValidate: true });
+    rememberSource(source.url, { title: source.title, siteName: source.siteName, fetchedVia: 'search' });
+    setActiveTab('write');
+
+    const cursor = before.length + insertion.length;
+    requestAnimationFrame(() => {
+      contentTextareaRef.current?.focus();
+      contentTextareaRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const handleRestoreRevision = (revision: PostRevision) => {
+    applyDraftValues(toDraftValues(revision), { shouldDirty: true });
+    setIsHistoryOpen(false);
+    toast.success('Revision restored into the editor. Save to keep it.');
+  };
+
+  // Only unpublished drafts autosave to the server; live posts keep a local copy until
+  // the writer explicitly saves, so half-finished edits never reach readers.
+  const persistDraft = async (values: PostDraftValues): Promise<PersistResult> => {
+    if (conflictRef.current) return 'conflict';
+    if (!postSchema.safeParse(values).success) return 'skipped';
+
+    const { data, error } = await supabase
+      .from('posts')
+      .update({
+        title: values.title!,
+        excerpt: values.excerpt || null,
+        content_markdown: values.content_markdown!,
+        tags: parseTags(values.tags),
+        category: values.category?.trim() || null,
+      })
+      .eq('id', id)
+      .eq('updated_at', baseUpdatedAtRef.current!)
+      .select('updated_at');
+    if (error) throw error;
+
+    if (!data?.length) {
+      await openConflict(null);
+      return 'conflict';
+    }
+    baseUpdatedAtRef.current = data[0].updated_at;
+    await saveSources(id!, values.content_markdown!);
+    return 'saved';
   };
 
+  const draftValues = watch();
+  const { ref: registerContentRef, ...contentField } = register('content_markdown');
+  const autosave = usePostAutosave({
+    storageKey,
+    values: draftValues,
+    enabled: isFormReady,
+    persist: isEditMode && existingPost && !existingPost.is_published ? persistDraft : undefined,
+  });
+  const waitForAutosave = autosave.waitForPendingSave;
+
+  const handleKeepLocal = () => {
+    if (!conflict) return;
+    const { server, publish } = conflict;
+    baseUpdatedAtRef.current = server.updated_at;
+    conflictRef.current = false;
+    setConflict(null);
+
+    if (publish === null) {
+      autosave.saveNow();
+    } else {
+      handleSubmit((data) => onSubmit(data, publish))();
+    }
+  };
+
+  const handleUseServer = () => {
+    if (!conflict) return;
+    const serverValues = toDraftValues(conflict.server);
+    applyDraftValues(serverValues);
+    autosave.markSynced(serverValues);
+    baseUpdatedAtRef.current = conflict.server.updated_at;
+    conflictRef.current = false;
+    clearLocalDraft(storageKey);
+    setConflict(null);
+    toast.success('Loaded the latest saved version');
+  };
+
+  const handleMerge = (mergedContent: string) => {
+    if (!conflict) return;
+    setValue('content_markdown', mergedContent, { shouldDirty: true, shouldValidate: true });
+    baseUpdatedAtRef.current = conflict.server.updated_at;
+    conflictRef.current = false;
+    setConflict(null);
+    toast.success('Merged content applied');
+  };
+
+  const autosaveLabel = (() => {
+    switch (autosave.status) {
+      case 'pending':
+      case 'saving':
+        return 'Saving…';
+      case 'saved':
+        return `Draft saved ${formatDistanceToNow(autosave.lastSavedAt ?? new Date(), { addSuffix: true })}`;
+      case 'saved-locally':
+        return 'Changes saved on this device';
+      case 'conflict':
+        return 'Out of sync with the saved version';
+      case 'error':
+        return "Couldn't autosave — your changes are kept on this device";
+      default:
+        return null;
+    }
+  })();
+
   const currentContent = watch('content_markdown');
   const currentTitle = watch('title');
   const currentExcerpt = watch('excerpt');
@@ -166,176 +506,354 @@ export default function PostEditor() {
   return (
     <Layout>
       <div className="container py-8 md:py-12">
-        <div className="max-w-4xl mx-auto">
-          <Button
-            variant="ghost"
-            onClick={() => navigate('/dashboard')}
-            className="mb-6 text-sm text-muted-foreground hover:text-foreground"
-          >
-            <ArrowLeft className="mr-2 h-4 w-4" />
-            Back to dashboard
-          </Button>
-
-          <form className="space-y-8">
-            <div className="space-y-3">
-              <Label
-                htmlFor="title"
-                className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground"
+        <div className={cn('mx-auto', isResearchOpen ? 'max-w-6xl' : 'max-w-4xl')}>
+          <div className="mb-6 flex items-center justify-between gap-2">
+            <Button
+              variant="ghost"
+              onClick={() => navigate('/dashboard')}
+              className="text-sm text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to dashboard
+            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                type="button"
+                variant={isResearchOpen ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setIsResearchOpen((open) => !open)}
+                className="rounded-full px-4 text-xs md:text-sm"
               >
-                Title
-              </Label>
-              <Input
-                id="title"
-                placeholder="Give your post a scroll-stopping title..."
-                className="border-0 border-b border-border bg-transparent px-0 text-2xl md:text-4xl font-semibold tracking-tight focus-visible:ring-0 focus-visible:border-primary rounded-none"
-                {...register('title')}
-              />
-              {errors.title && (
-                <p className="text-xs md:text-sm text-destructive">{errors.title.message}</p>
+                <BookOpen className="mr-2 h-4 w-4" />
+                Research
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setIsImportOpen(true)}
+                disabled={!isFormReady}
+                className="rounded-full px-4 text-xs md:text-sm"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+              {isEditMode && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsHistoryOpen(true)}
+                  className="rounded-full px-4 text-xs md:text-sm"
+                >
+                  <History className="mr-2 h-4 w-4" />
+                  History
+                </Button>
               )}
             </div>
+          </div>
+
+          <div className={cn(isResearchOpen && 'grid gap-8 lg:grid-cols-[minmax(0,1fr)_20rem]')}>
+            <form className="space-y-8">
+              <div className="space-y-3">
+                <Label
+                  htmlFor="title"
+                  className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground"
+                >
+                  Title
+                </Label>
+                <Input
+                  id="title"
+                  placeholder="Give your post a scroll-stopping title..."
+                  className="border-0 border-b border-border bg-transparent px-0 text-2xl md:text-4xl font-semibold tracking-tight focus-visible:ring-0 focus-visible:border-primary rounded-none"
+                  {...register('title')}
+                />
+                {errors.title && (
+                  <p className="text-xs md:text-sm text-destructive">{errors.title.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <Label
+                    htmlFor="excerpt"
+                    className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground"
+                  >
+                    Excerpt (optional)
+                  </Label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="h-7 rounded-full px-3 text-[0.7rem] font-medium"
+                    onClick={() => aiSuggestMutation.mutate()}
+                    disabled={aiSuggestMutation.isPending || !currentContent}
+                  >
+                    <Sparkles className="mr-1.5 h-3.5 w-3.5" />
+                    AI suggest
+                  </Button>
+                </div>
+                <Textarea
+                  id="excerpt"
+                  placeholder="A quick vibe-check summary for the feed..."
+                  rows={2}
+                  className="text-sm md:text-base leading-relaxed resize-none"
+                  {...register('excerpt')}
+                />
+                {errors.excerpt && (
+                  <p className="text-xs md:text-sm text-destructive">{errors.excerpt.message}</p>
+                )}
+              </div>
 
-            <div className="space-y-3">
-              <div className="flex items-center justify-between gap-2">
+              <div className="space-y-3">
                 <Label
-                  htmlFor="excerpt"
+                  htmlFor="category"
                   className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground"
                 >
-                  Excerpt (optional)
+                  Category (optional)
                 </Label>
+                <Input
+                  id="category"
+                  placeholder="Essays, Tech, Life, Design..."
+                  className="text-sm md:text-base leading-relaxed"
+                  {...register('category')}
+                />
+                {errors.category && (
+                  <p className="text-xs md:text-sm text-destructive">{errors.category.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <Label
+                  htmlFor="tags"
+                  className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground"
+                >
+                  Tags (optional)
+                </Label>
+                <Input
+                  id="tags"
+                  placeholder="design, hot-takes, personal, ..."
+                  className="text-sm md:text-base leading-relaxed"
+                  {...register('tags')}
+                />
+                <p className="text-[0.7rem] text-muted-foreground">
+                  Comma-separated. Keep them short & vibe-y.
+                </p>
+                {errors.tags && (
+                  <p className="text-xs md:text-sm text-destructive">{errors.tags.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <Label
+                  htmlFor="canonical-url"
+                  className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground"
+                >
+                  Originally published at (optional)
+                </Label>
+                <Input
+                  id="canonical-url"
+                  type="text"
+                  inputMode="url"
+                  value={canonicalUrl}
+                  onChange={(e) => {
+                    setCanonicalUrl(e.target.value);
+                    setCanonicalUrlError(null);
+                  }}
+                  placeholder="https://..."
+                  className="text-sm md:text-base leading-relaxed"
+                />
+                {canonicalUrlError && (
+                  <p className="text-xs md:text-sm text-destructive">{canonicalUrlError}</p>
+                )}
+                <p className="text-[0.7rem] text-muted-foreground">
+                  For reposts. Readers and search engines are pointed back to the original.
+                </p>
+              </div>
+
+              <Collapsible open={isSeoOpen} onOpenChange={setIsSeoOpen} className="space-y-3">
+                <CollapsibleTrigger className="flex w-full items-center justify-between text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground hover:text-foreground">
+                  Search & social preview (optional)
+                  <ChevronDown className={cn('h-4 w-4 transition-transform', isSeoOpen && 'rotate-180')} />
+                </CollapsibleTrigger>
+                <CollapsibleContent className="space-y-4 rounded-xl border border-border/60 bg-muted/30 p-4">
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="meta-title" className="text-xs">Meta title</Label>
+                      <span className="text-[0.7rem] text-muted-foreground">
+                        {seo.metaTitle.length}/{META_TITLE_MAX}
+                      </span>
+                    </div>
+                    <Input
+                      id="meta-title"
+                      value={seo.metaTitle}
+                      onChange={(e) => setSeo((prev) => ({ ...prev, metaTitle: e.target.value }))}
+                      maxLength={META_TITLE_MAX}
+                      placeholder={watch('title') || 'Defaults to the post title'}
+                      className="text-sm"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="meta-description" className="text-xs">Meta description</Label>
+                      <span className="text-[0.7rem] text-muted-foreground">
+                        {seo.metaDescription.length}/{META_DESCRIPTION_MAX}
+                      </span>
+                    </div>
+                    <Textarea
+                      id="meta-description"
+                      value={seo.metaDescription}
+                      onChange={(e) => setSeo((prev) => ({ ...prev, metaDescription: e.target.value }))}
+                      maxLength={META_DESCRIPTION_MAX}
+                      rows={2}
+                      placeholder={watch('excerpt') || 'Defaults to the excerpt'}
+                      className="resize-none text-sm"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="og-image" className="text-xs">Social image URL</Label>
+                    <Input
+                      id="og-image"
+                      type="text"
+                      inputMode="url"
+                      value={seo.ogImageUrl}
+                      onChange={(e) => setSeo((prev) => ({ ...prev, ogImageUrl: e.target.value }))}
+                      placeholder="https://... (1200×630 works best)"
+                      className="text-sm"
+                    />
+                    {seo.ogImageUrl.trim() && (
+                      <img
+                        src={normalizeUrl(seo.ogImageUrl)}
+                        alt="Social image preview"
+                        className="aspect-[1200/630] w-full max-w-sm rounded-lg border border-border/60 object-cover"
+                      />
+                    )}
+                  </div>
+                  <p className="text-[0.7rem] text-muted-foreground">
+                    Shown in search results and link previews. The canonical link uses "Originally published at" when it's set.
+                  </p>
+                </CollapsibleContent>
+              </Collapsible>
+
+              <div className="space-y-3">
+                <Label className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground">
+                  Content
+                </Label>
+                <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)}>
+                  <TabsList className="grid w-full grid-cols-2 rounded-full bg-muted/60 p-1">
+                    <TabsTrigger
+                      value="write"
+                      className="rounded-full text-xs md:text-sm data-[state=active]:bg-background data-[state=active]:shadow-sm"
+                    >
+                      Write
+                    </TabsTrigger>
+                    <TabsTrigger
+                      value="preview"
+                      className="rounded-full text-xs md:text-sm data-[state=active]:bg-background data-[state=active]:shadow-sm"
+                    >
+                      <Eye className="mr-2 h-4 w-4" />
+                      Preview
+                    </TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="write" className="mt-4">
+                    <Textarea
+                      placeholder="Write your post in Markdown... headings, lists, code — all welcome."
+                      rows={20}
+                      className="font-mono text-sm md:text-base leading-relaxed"
+                      {...contentField}
+                      ref={(element) => {
+                        registerContentRef(element);
+                        contentTextareaRef.current = element;
+                      }}
+                    />
+                    {errors.content_markdown && (
+                      <p className="mt-2 text-xs md:text-sm text-destructive">
+                        {errors.content_markdown.message}
+                      </p>
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="preview" className="mt-4">
+                    <Card className="border-border/60 shadow-sm">
+                      <CardContent className="pt-6">
+                        <MarkdownRenderer
+                          content={currentContent || '*No content yet*'}
+                          className="text-sm md:text-base"
+                        />
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+                </Tabs>
+              </div>
+
+              <div className="flex flex-col-reverse gap-3 sm:flex-row sm:items-center sm:justify-end sm:gap-4">
+                {autosaveLabel && (
+                  <p className="text-center text-[0.7rem] text-muted-foreground sm:mr-auto sm:text-left sm:text-xs">
+                    {autosaveLabel}
+                  </p>
+                )}
+                {canSchedule && (
+                  <SchedulePicker
+                    value={scheduledFor}
+                    onChange={setScheduledFor}
+                    disabled={isSubmitting || !isFormReady}
+                  />
+                )}
                 <Button
                   type="button"
-                  size="sm"
                   variant="outline"
-                  className="h-7 rounded-full px-3 text-[0.7rem] font-medium"
-                  onClick={() => aiSuggestMutation.mutate()}
-                  disabled={aiSuggestMutation.isPending || !currentContent}
+                  onClick={handleSubmit((data) => onSubmit(data, false))}
+                  disabled={isSubmitting || !isFormReady}
+                  className="justify-center sm:w-auto text-sm md:text-base rounded-xl border-border/50 bg-background/50 hover:bg-background transition-all"
                 >
-                  <Sparkles className="mr-1.5 h-3.5 w-3.5" />
-                  AI suggest
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Draft
+                </Button>
+                <Button
+                  type="button"
+                  onClick={handleSubmit((data) => onSubmit(data, true))}
+                  disabled={isSubmitting || !isFormReady}
+                  className="justify-center sm:w-auto text-sm md:text-base rounded-xl shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all"
+                >
+                  {canSchedule && scheduledFor ? 'Schedule' : 'Publish'}
                 </Button>
               </div>
-              <Textarea
-                id="excerpt"
-                placeholder="A quick vibe-check summary for the feed..."
-                rows={2}
-                className="text-sm md:text-base leading-relaxed resize-none"
-                {...register('excerpt')}
-              />
-              {errors.excerpt && (
-                <p className="text-xs md:text-sm text-destructive">{errors.excerpt.message}</p>
-              )}
-            </div>
+            </form>
 
-            <div className="space-y-3">
-              <Label
-                htmlFor="category"
-                className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground"
-              >
-                Category (optional)
-              </Label>
-              <Input
-                id="category"
-                placeholder="Essays, Tech, Life, Design..."
-                className="text-sm md:text-base leading-relaxed"
-                {...register('category')}
-              />
-              {errors.category && (
-                <p className="text-xs md:text-sm text-destructive">{errors.category.message}</p>
-              )}
-            </div>
+            {isResearchOpen && (
+              <aside className="order-first lg:order-none lg:sticky lg:top-20 lg:max-h-[calc(100vh-6rem)] lg:self-start lg:overflow-y-auto">
+                <ResearchPanel onInsert={handleInsertResearch} onClose={() => setIsResearchOpen(false)} />
+              </aside>
+            )}
+          </div>
 
-            <div className="space-y-3">
-              <Label
-                htmlFor="tags"
-                className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground"
-              >
-                Tags (optional)
-              </Label>
-              <Input
-                id="tags"
-                placeholder="design, hot-takes, personal, ..."
-                className="text-sm md:text-base leading-relaxed"
-                {...register('tags')}
-              />
-              <p className="text-[0.7rem] text-muted-foreground">
-                Comma-separated. Keep them short & vibe-y.
-              </p>
-              {errors.tags && (
-                <p className="text-xs md:text-sm text-destructive">{errors.tags.message}</p>
-              )}
-            </div>
+          <ImportFromUrlDialog
+            open={isImportOpen}
+            onOpenChange={setIsImportOpen}
+            onImport={handleImport}
+            hasExistingContent={!!(draftValues.title || draftValues.content_markdown)}
+          />
 
-            <div className="space-y-3">
-              <Label className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground">
-                Content
-              </Label>
-              <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)}>
-                <TabsList className="grid w-full grid-cols-2 rounded-full bg-muted/60 p-1">
-                  <TabsTrigger
-                    value="write"
-                    className="rounded-full text-xs md:text-sm data-[state=active]:bg-background data-[state=active]:shadow-sm"
-                  >
-                    Write
-                  </TabsTrigger>
-                  <TabsTrigger
-                    value="preview"
-                    className="rounded-full text-xs md:text-sm data-[state=active]:bg-background data-[state=active]:shadow-sm"
-                  >
-                    <Eye className="mr-2 h-4 w-4" />
-                    Preview
-                  </TabsTrigger>
-                </TabsList>
-
-                <TabsContent value="write" className="mt-4">
-                  <Textarea
-                    placeholder="Write your post in Markdown... headings, lists, code — all welcome."
-                    rows={20}
-                    className="font-mono text-sm md:text-base leading-relaxed"
-                    {...register('content_markdown')}
-                  />
-                  {errors.content_markdown && (
-                    <p className="mt-2 text-xs md:text-sm text-destructive">
-                      {errors.content_markdown.message}
-                    </p>
-                  )}
-                </TabsContent>
-
-                <TabsContent value="preview" className="mt-4">
-                  <Card className="border-border/60 shadow-sm">
-                    <CardContent className="pt-6">
-                      <div className="post-prose text-sm md:text-base">
-                        <ReactMarkdown>
-                          {currentContent || '*No content yet*'}
-                        </ReactMarkdown>
-                      </div>
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-              </Tabs>
-            </div>
+          {isEditMode && (
+            <PostHistoryPanel
+              postId={id!}
+              open={isHistoryOpen}
+              onOpenChange={setIsHistoryOpen}
+              onRestore={handleRestoreRevision}
+            />
+          )}
 
-            <div className="flex flex-col-reverse gap-3 sm:flex-row sm:justify-end sm:gap-4">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={handleSubmit((data) => onSubmit(data, false))}
-                disabled={isSubmitting}
-                className="justify-center sm:w-auto text-sm md:text-base rounded-xl border-border/50 bg-background/50 hover:bg-background transition-all"
-              >
-                <Save className="mr-2 h-4 w-4" />
-                Save Draft
-              </Button>
-              <Button
-                type="button"
-                onClick={handleSubmit((data) => onSubmit(data, true))}
-                disabled={isSubmitting}
-                className="justify-center sm:w-auto text-sm md:text-base rounded-xl shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all"
-              >
-                Publish
-              </Button>
-            </div>
-          </form>
+          {isEditMode && (
+            <PostConflictDialog
+              open={!!conflict}
+              local={draftValues}
+              server={conflict?.server ?? null}
+              onKeepLocal={handleKeepLocal}
+              onUseServer={handleUseServer}
+              onMerge={handleMerge}
+            />
+          )}
         </div>
       </div>
     </Layout>
@@ -0,0 +1,488 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Bookmark, CheckCircle2, FolderPlus, MoreHorizontal, Pencil, Search, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Layout } from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { READ_THRESHOLD, useReadingHistory, type ReadingHistory } from '@/hooks/use-reading-history';
+import { getReadingTimeMinutes } from '@/lib/readingTime';
+import { getPostPath } from '@/lib/slug';
+import { cn } from '@/lib/utils';
+
+interface SavedPost {
+  id: string;
+  list_id: string | null;
+  created_at: string;
+  post_id: string;
+  // Null once the post is unpublished or removed; the bookmark row outlives it
+  posts: {
+    slug: string;
+    title: string;
+    excerpt: string | null;
+    content_markdown: string;
+    published_at: string | null;
+    profiles: { display_name: string } | null;
+  } | null;
+}
+
+interface ReadingListRow {
+  id: string;
+  name: string;
+}
+
+type SortOrder = 'saved-desc' | 'saved-asc' | 'published-desc' | 'title';
+type ReadFilter = 'all' | 'unread' | 'in-progress' | 'finished';
+
+// Pseudo collections alongside the reader's own lists
+const ALL = 'all';
+const UNSORTED = 'unsorted';
+
+const SORT_LABELS: Record<SortOrder, string> = {
+  'saved-desc': 'Recently saved',
+  'saved-asc': 'Oldest saved',
+  'published-desc': 'Newest posts',
+  title: 'Title A–Z',
+};
+
+const FILTER_LABELS: Record<ReadFilter, string> = {
+  all: 'Everything',
+  unread: 'Not started',
+  'in-progress': 'In progress',
+  finished: 'Finished',
+};
+
+const readStateOf = (history: ReadingHistory, postId: string): Exclude<ReadFilter, 'all'> => {
+  const entry = history[postId];
+  if (!entry) return 'unread';
+  return entry.completed || entry.progress >= READ_THRESHOLD ? 'finished' : 'in-progress';
+};
+
+export default function ReadingList() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const readingHistory = useReadingHistory();
+  const [activeList, setActiveList] = useState<string>(ALL);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('saved-desc');
+  const [readFilter, setReadFilter] = useState<ReadFilter>('all');
+  const [listDialog, setListDialog] = useState<{ list: ReadingListRow | null; name: string } | null>(null);
+  const [deleteList, setDeleteList] = useState<ReadingListRow | null>(null);
+
+  const { data: saved, isLoading: savedLoading } = useQuery({
+    queryKey: ['reading-list', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .select('id, list_id, created_at, post_id, posts ( slug, title, excerpt, content_markdown, published_at, profiles ( display_name ) )')
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as unknown as SavedPost[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: lists } = useQuery({
+    queryKey: ['reading-lists', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('reading_lists')
+        .select('id, name')
+        .eq('user_id', user!.id)
+        .order('name', { ascending: true });
+      if (error) throw error;
+      return data as ReadingListRow[];
+    },
+    enabled: !!user,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['reading-list'] });
+    queryClient.invalidateQueries({ queryKey: ['reading-lists'] });
+  };
+
+  const saveListMutation = useMutation({
+    mutationFn: async ({ list, name }: { list: ReadingListRow | null; name: string }) => {
+      const { error } = list
+        ? await supabase.from('reading_lists').update({ name }).eq('id', list.id)
+        : await supabase.from('reading_lists').insert({ user_id: user!.id, name });
+      if (error) throw error;
+    },
+    onSuccess: (_, { list }) => {
+      invalidate();
+      setListDialog(null);
+      toast.success(list ? 'List renamed' : 'List created');
+    },
+    onError: (error: { code?: string }) => {
+      if (error.code === '23505') {
+        toast.error('You already have a list with that name');
+        return;
+      }
+      toast.error('Failed to save list');
+    },
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: async (listId: string) => {
+      const { error } = await supabase.from('reading_lists').delete().eq('id', listId);
+      if (error) throw error;
+    },
+    onSuccess: (_, listId) => {
+      invalidate();
+      if (activeList === listId) setActiveList(ALL);
+      toast.success('List deleted. Its posts are still saved.');
+    },
+    onError: () => toast.error('Failed to delete list'),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ bookmarkId, listId }: { bookmarkId: string; listId: string | null }) => {
+      const { error } = await supabase.from('bookmarks').update({ list_id: listId }).eq('id', bookmarkId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: () => toast.error('Failed to move post'),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (bookmarkId: string) => {
+      const { error } = await supabase.from('bookmarks').delete().eq('id', bookmarkId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['bookmarks'] });
+    },
+    onError: () => toast.error('Failed to remove post'),
+  });
+
+  const counts = useMemo(() => {
+    const result: Record<string, number> = { [ALL]: saved?.length ?? 0, [UNSORTED]: 0 };
+    saved?.forEach((item) => {
+      const key = item.list_id ?? UNSORTED;
+      result[key] = (result[key] ?? 0) + 1;
+    });
+    return result;
+  }, [saved]);
+
+  const visible = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const filtered = (saved ?? []).filter((item) => {
+      if (activeList === UNSORTED && item.list_id) return false;
+      if (activeList !== ALL && activeList !== UNSORTED && item.list_id !== activeList) return false;
+      if (readFilter !== 'all' && readStateOf(readingHistory, item.post_id) !== readFilter) return false;
+      if (!query) return true;
+      return [item.posts?.title, item.posts?.excerpt, item.posts?.profiles?.display_name]
+        .filter(Boolean)
+        .some((value) => value!.toLowerCase().includes(query));
+    });
+
+    return filtered.sort((a, b) => {
+      switch (sortOrder) {
+        case 'saved-asc':
+          return a.created_at.localeCompare(b.created_at);
+        case 'published-desc':
+          return (b.posts?.published_at ?? '').localeCompare(a.posts?.published_at ?? '');
+        case 'title':
+          return (a.posts?.title ?? '').localeCompare(b.posts?.title ?? '');
+        default:
+          return b.created_at.localeCompare(a.created_at);
+      }
+    });
+  }, [saved, activeList, searchQuery, sortOrder, readFilter, readingHistory]);
+
+  const collections = [
+    { id: ALL, name: 'All saved' },
+    { id: UNSORTED, name: 'Unsorted' },
+    ...(lists ?? []),
+  ];
+  const activeCustomList = lists?.find((list) => list.id === activeList) ?? null;
+
+  return (
+    <Layout>
+      <div className="container px-3 sm:px-4 py-8 md:py-12">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div className="flex flex-wrap items-end justify-between gap-4 animate-fade-in">
+            <div className="space-y-2">
+              <h1 className="font-display text-2xl font-semibold tracking-tight sm:text-3xl md:text-4xl">
+                Reading list
+              </h1>
+              <p className="text-sm text-muted-foreground sm:text-base">
+                Posts you saved for later, filed however you like.
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setListDialog({ list: null, name: '' })}
+              className="rounded-full"
+            >
+              <FolderPlus className="mr-2 h-4 w-4" />
+              New list
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {collections.map((collection) => (
+              <button
+                key={collection.id}
+                type="button"
+                onClick={() => setActiveList(collection.id)}
+                className={cn(
+                  'inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs font-medium transition',
+                  activeList === collection.id
+                    ? 'border-primary bg-primary text-primary-foreground'
+                    : 'border-border/60 bg-muted/60 text-muted-foreground hover:border-primary/60 hover:text-foreground',
+                )}
+              >
+                {collection.name}
+                <span className="opacity-70">{counts[collection.id] ?? 0}</span>
+              </button>
+            ))}
+            {activeCustomList && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 rounded-full p-0" aria-label="List options">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuItem
+                    onClick={() => setListDialog({ list: activeCustomList, name: activeCustomList.name })}
+                    className="cursor-pointer"
+                  >
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setDeleteList(activeCustomList)}
+                    className="cursor-pointer text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete list
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <div className="relative sm:flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search saved posts..."
+                className="pl-9 text-sm"
+              />
+            </div>
+            <Select value={readFilter} onValueChange={(value) => setReadFilter(value as ReadFilter)}>
+              <SelectTrigger className="text-sm sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FILTER_LABELS) as ReadFilter[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {FILTER_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+              <SelectTrigger className="text-sm sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SORT_LABELS) as SortOrder[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {SORT_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {savedLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-24 w-full rounded-xl" />
+              ))}
+            </div>
+          ) : visible.length > 0 ? (
+            <Card className="border-border/60 shadow-sm">
+              <ul className="divide-y divide-border/50">
+                {visible.map((item) => {
+                  const readState = readStateOf(readingHistory, item.post_id);
+                  const progress = readingHistory[item.post_id]?.progress;
+                  return (
+                    <li key={item.id} className="flex flex-col gap-3 px-4 py-4 sm:flex-row sm:items-start">
+                      <div className="min-w-0 flex-1 space-y-1">
+                        {item.posts ? (
+                          <Link
+                            to={getPostPath(item.posts.slug)}
+                            className="font-display text-base font-semibold leading-snug hover:text-primary"
+                          >
+                            {item.posts.title}
+                          </Link>
+                        ) : (
+                          <p className="text-sm italic text-muted-foreground">This post is no longer available.</p>
+                        )}
+                        {item.posts && (
+                          <p className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+                            {item.posts.profiles?.display_name && <span>{item.posts.profiles.display_name}</span>}
+                            <span>{getReadingTimeMinutes(item.posts.content_markdown)} min read</span>
+                            <span>Saved {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}</span>
+                            {readState === 'finished' ? (
+                              <span className="flex items-center gap-1 font-medium text-emerald-600 dark:text-emerald-400">
+                                <CheckCircle2 className="h-3 w-3" />
+                                Read
+                              </span>
+                            ) : readState === 'in-progress' ? (
+                              <span className="font-medium text-primary">{progress}% read</span>
+                            ) : null}
+                          </p>
+                        )}
+                        {item.posts?.excerpt && (
+                          <p className="line-clamp-2 text-sm text-muted-foreground">{item.posts.excerpt}</p>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 items-center gap-2">
+                        <Select
+                          value={item.list_id ?? UNSORTED}
+                          onValueChange={(value) =>
+                            moveMutation.mutate({ bookmarkId: item.id, listId: value === UNSORTED ? null : value })
+                          }
+                        >
+                          <SelectTrigger className="h-8 w-36 text-xs" aria-label="Move to list">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNSORTED} className="text-xs">
+                              Unsorted
+                            </SelectItem>
+                            {lists?.map((list) => (
+                              <SelectItem key={list.id} value={list.id} className="text-xs">
+                                {list.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeMutation.mutate(item.id)}
+                          className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                          aria-label="Remove from reading list"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </Card>
+          ) : (
+            <div className="flex flex-col items-center gap-3 py-16 text-center">
+              <Bookmark className="h-8 w-8 text-muted-foreground/60" />
+              <p className="text-sm text-muted-foreground">
+                {saved && saved.length > 0
+                  ? 'Nothing here matches these filters.'
+                  : 'Nothing saved yet. Tap the bookmark on any post to keep it here.'}
+              </p>
+              {!saved?.length && (
+                <Button asChild variant="outline" size="sm" className="rounded-full">
+                  <Link to="/">Browse posts</Link>
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={!!listDialog} onOpenChange={(open) => !open && setListDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{listDialog?.list ? 'Rename list' : 'New reading list'}</DialogTitle>
+            <DialogDescription>Group saved posts however suits you: by topic, mood or deadline.</DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const name = listDialog?.name.trim();
+              if (listDialog && name) saveListMutation.mutate({ list: listDialog.list, name });
+            }}
+            className="space-y-4"
+          >
+            <Input
+              value={listDialog?.name ?? ''}
+              onChange={(e) => setListDialog((prev) => prev && { ...prev, name: e.target.value })}
+              placeholder="Weekend reads"
+              maxLength={60}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setListDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!listDialog?.name.trim() || saveListMutation.isPending}>
+                {listDialog?.list ? 'Rename' : 'Create list'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteList} onOpenChange={() => setDeleteList(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete “{deleteList?.name}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The list goes away, but its posts stay saved under Unsorted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteList && deleteListMutation.mutate(deleteList.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+}
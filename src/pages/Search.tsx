@@ -0,0 +1,328 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Calendar, ChevronLeft, ChevronRight, Search as SearchIcon, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Layout } from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getPostPath } from '@/lib/slug';
+
+const PAGE_SIZE = 10;
+// Select items can't have an empty value, so "no filter" gets a sentinel
+const ANY = 'any';
+
+const FILTER_KEYS = ['tag', 'category', 'author', 'from', 'to'] as const;
+type FilterKey = (typeof FILTER_KEYS)[number];
+
+/** Renders text containing <mark> highlights from search_posts without trusting any other markup */
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded-sm bg-primary/15 px-0.5 text-foreground">
+            {part}
+          </mark>
+        ) : (
+          part
+        ),
+      )}
+    </>
+  );
+}
+
+// Date inputs give local calendar days; the range includes the whole "to" day
+const startOfDayIso = (day: string) => new Date(`${day}T00:00:00`).toISOString();
+const endOfDayIso = (day: string) => {
+  const end = new Date(`${day}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+  return end.toISOString();
+};
+
+export default function Search() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') ?? '';
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const filters = Object.fromEntries(FILTER_KEYS.map((key) => [key, searchParams.get(key) ?? ''])) as Record<
+    FilterKey,
+    string
+  >;
+  const hasFilters = FILTER_KEYS.some((key) => filters[key]);
+
+  // The box is edited locally and only committed to the URL on submit
+  const [draft, setDraft] = useState(query);
+  useEffect(() => setDraft(query), [query]);
+
+  const updateParams = (changes: Record<string, string>) => {
+    setSearchParams((current) => {
+      const next = new URLSearchParams(current);
+      Object.entries(changes).forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+      // Any change to what's searched starts again from the first page
+      if (!('page' in changes)) next.delete('page');
+      return next;
+    });
+  };
+
+  const { data: filterOptions } = useQuery({
+    queryKey: ['search-filters'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('posts')
+        .select('category, tags, author_id, profiles (display_name)')
+        .eq('is_published', true)
+        .eq('is_hidden', false);
+      if (error) throw error;
+
+      const tags = new Set<string>();
+      const categories = new Set<string>();
+      const authors = new Map<string, string>();
+      data.forEach((post) => {
+        post.tags?.forEach((tag) => tags.add(tag));
+        if (post.category) categories.add(post.category);
+        if (post.profiles) authors.set(post.author_id, post.profiles.display_name);
+      });
+      return {
+        tags: [...tags].sort((a, b) => a.localeCompare(b)),
+        categories: [...categories].sort((a, b) => a.localeCompare(b)),
+        authors: [...authors].sort(([, a], [, b]) => a.localeCompare(b)),
+      };
+    },
+  });
+
+  const isSearching = !!query.trim() || hasFilters;
+
+  const { data: results, isLoading, isError, refetch } = useQuery({
+    queryKey: ['search', query, filters, page],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_posts', {
+        _query: query,
+        _tag: filters.tag || undefined,
+        _category: filters.category || undefined,
+        _author_id: filters.author || undefined,
+        _from: filters.from ? startOfDayIso(filters.from) : undefined,
+        _to: filters.to ? endOfDayIso(filters.to) : undefined,
+        _limit: PAGE_SIZE,
+        _offset: (page - 1) * PAGE_SIZE,
+      });
+      if (error) throw error;
+      return data;
+    },
+    enabled: isSearching,
+    placeholderData: keepPreviousData,
+  });
+
+  const total = results?.[0]?.total_count ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const authorName = useMemo(
+    () => filterOptions?.authors.find(([id]) => id === filters.author)?.[1],
+    [filterOptions, filters.author],
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ q: draft.trim() });
+  };
+
+  const renderSelect = (key: 'tag' | 'category' | 'author', placeholder: string, options: [string, string][]) => (
+    <Select value={filters[key] || ANY} onValueChange={(value) => updateParams({ [key]: value === ANY ? '' : value })}>
+      <SelectTrigger className="h-9 w-full rounded-full text-sm sm:w-44">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>{placeholder}</SelectItem>
+        {options.map(([value, label]) => (
+          <SelectItem key={value} value={value}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Layout>
+      <div className="container px-3 sm:px-4 py-8 md:py-12">
+        <div className="max-w-3xl mx-auto space-y-8">
+          <header className="space-y-2">
+            <p className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground">Search</p>
+            <h1 className="font-display text-3xl font-bold tracking-tight md:text-4xl">Find a post</h1>
+          </header>
+
+          <div className="space-y-4">
+            <form onSubmit={handleSubmit} className="relative" role="search">
+              <SearchIcon className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                type="search"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder='Search posts… try "exact phrase" or -exclude'
+                aria-label="Search posts"
+                className="h-11 rounded-full border-border bg-card pl-11 pr-24 text-sm shadow-sm"
+                autoFocus
+              />
+              <Button type="submit" size="sm" className="absolute right-1.5 top-1/2 h-8 -translate-y-1/2 rounded-full px-4">
+                Search
+              </Button>
+            </form>
+
+            <div className="flex flex-col gap-2 sm:flex-row sm:flex-wrap sm:items-center">
+              {renderSelect('category', 'Any category', (filterOptions?.categories ?? []).map((c) => [c, c]))}
+              {renderSelect('tag', 'Any tag', (filterOptions?.tags ?? []).map((t) => [t, `#${t}`]))}
+              {renderSelect('author', 'Any author', filterOptions?.authors ?? [])}
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={filters.from}
+                  max={filters.to || undefined}
+                  onChange={(e) => updateParams({ from: e.target.value })}
+                  aria-label="Published from"
+                  className="h-9 rounded-full text-sm"
+                />
+                <span className="text-xs text-muted-foreground">to</span>
+                <Input
+                  type="date"
+                  value={filters.to}
+                  min={filters.from || undefined}
+                  onChange={(e) => updateParams({ to: e.target.value })}
+                  aria-label="Published to"
+                  className="h-9 rounded-full text-sm"
+                />
+              </div>
+              {hasFilters && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-9 gap-1 text-muted-foreground"
+                  onClick={() => updateParams(Object.fromEntries(FILTER_KEYS.map((key) => [key, ''])))}
+                >
+                  <X className="h-3.5 w-3.5" />
+                  Clear filters
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {!isSearching ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">
+              Search titles, excerpts and full post text, or narrow things down with the filters.
+            </p>
+          ) : isError ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center gap-3 py-10 text-center">
+                <p className="text-sm text-muted-foreground">Search isn't working right now. Please try again.</p>
+                <Button type="button" variant="outline" size="sm" onClick={() => refetch()} className="rounded-full px-4">
+                  Try again
+                </Button>
+              </CardContent>
+            </Card>
+          ) : isLoading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <Card key={i}>
+                  <CardContent className="space-y-2 p-5">
+                    <Skeleton className="h-5 w-2/3" />
+                    <Skeleton className="h-3 w-1/3" />
+                    <Skeleton className="h-12 w-full" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : results && results.length > 0 ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {total} {total === 1 ? 'result' : 'results'}
+                {query && (
+                  <>
+                    {' '}
+                    for <span className="font-medium text-foreground">"{query}"</span>
+                  </>
+                )}
+                {authorName && <> by {authorName}</>}
+              </p>
+
+              <ol className="space-y-4">
+                {results.map((result) => (
+                  <li key={result.id}>
+                    <Link to={getPostPath(result.slug)} className="group block">
+                      <Card className="transition-all duration-200 hover:border-primary/30 hover:shadow-md">
+                        <CardContent className="space-y-2 p-5">
+                          <h2 className="font-display text-lg font-semibold leading-snug group-hover:text-primary">
+                            <Highlighted text={result.title_highlight ?? result.title} />
+                          </h2>
+                          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                            {result.author_name && <span>{result.author_name}</span>}
+                            {result.published_at && (
+                              <span className="flex items-center gap-1">
+                                <Calendar className="h-3 w-3" />
+                                {format(new Date(result.published_at), 'MMM d, yyyy')}
+                              </span>
+                            )}
+                            {result.category && (
+                              <span className="uppercase tracking-[0.18em] text-[0.65rem]">{result.category}</span>
+                            )}
+                          </div>
+                          {(result.snippet || result.excerpt) && (
+                            <p className="line-clamp-3 text-sm text-muted-foreground">
+                              {/* Without a query there is nothing to highlight, so the excerpt reads better */}
+                              <Highlighted text={(query.trim() && result.snippet) || result.excerpt || result.snippet || ''} />
+                            </p>
+                          )}
+                        </CardContent>
+                      </Card>
+                    </Link>
+                  </li>
+                ))}
+              </ol>
+
+              {pageCount > 1 && (
+                <nav aria-label="Search result pages" className="flex items-center justify-between pt-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-1 rounded-full"
+                    disabled={page <= 1}
+                    onClick={() => updateParams({ page: String(page - 1) })}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <span className="text-xs text-muted-foreground">
+                    Page {page} of {pageCount}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-1 rounded-full"
+                    disabled={page >= pageCount}
+                    onClick={() => updateParams({ page: String(page + 1) })}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </nav>
+              )}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="py-10 text-center">
+                <p className="text-sm text-muted-foreground">
+                  No posts match{query ? <> "{query}"</> : ' these filters'}. Try fewer words or loosen the filters.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Calendar, ChevronLeft, ChevronRight, Pencil, Rss } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Layout } from '@/components/Layout';
+import { AuthorCard } from '@/components/AuthorCard';
+import { BookmarkButton } from '@/components/BookmarkButton';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useFeedLinks } from '@/hooks/use-feed-links';
+import { getTopicFeedUrl, type TopicKind } from '@/lib/feeds';
+import { getPostPath } from '@/lib/slug';
+
+const PAGE_SIZE = 12;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+interface TopicPost {
+  id: string;
+  slug: string;
+  title: string;
+  excerpt: string | null;
+  reading_time_minutes: number;
+  published_at: string | null;
+  author_id: string;
+  profiles: {
+    display_name: string;
+    avatar_url: string | null;
+  } | null;
+}
+
+interface TopicPageProps {
+  kind: TopicKind;
+}
+
+export default function TopicPage({ kind }: TopicPageProps) {
+  const params = useParams<{ tag: string; category: string }>();
+  const name = params[kind] ?? '';
+  const [searchParams, setSearchParams] = useSearchParams();
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const { hasRole } = useAuth();
+  const queryClient = useQueryClient();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftDescription, setDraftDescription] = useState('');
+
+  const label = kind === 'tag' ? `#${name}` : name;
+  useFeedLinks(name ? (kind === 'tag' ? { tag: name } : { category: name }) : null, `${label} on QuillScroll`);
+
+  const { data: topic } = useQuery({
+    queryKey: ['topic', kind, name],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('topics')
+        .select('description')
+        .eq('kind', kind)
+        .eq('name', name)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!name,
+  });
+
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: ['topic-posts', kind, name, page],
+    queryFn: async () => {
+      let query = supabase
+        .from('posts')
+        .select(
+          'id, slug, title, excerpt, reading_time_minutes, published_at, author_id, profiles (display_name, avatar_url)',
+          { count: 'exact' },
+        )
+        .eq('is_published', true)
+        .eq('is_hidden', false);
+      query = kind === 'tag' ? query.contains('tags', [name]) : query.eq('category', name);
+
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, error, count } = await query
+        .order('published_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+      return { posts: data as TopicPost[], count: count ?? 0 };
+    },
+    enabled: !!name,
+    placeholderData: keepPreviousData,
+  });
+
+  const saveDescriptionMutation = useMutation({
+    mutationFn: async (description: string) => {
+      const { error } = await supabase
+        .from('topics')
+        .upsert({ kind, name, description: description || null }, { onConflict: 'kind,name' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['topic', kind, name] });
+      setIsEditing(false);
+      toast.success('Description saved');
+    },
+    onError: (error) => {
+      console.error('Error saving topic description', error);
+      toast.error('Failed to save description');
+    },
+  });
+
+  const total = data?.count ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const goToPage = (next: number) => {
+    setSearchParams((current) => {
+      const updated = new URLSearchParams(current);
+      if (next > 1) updated.set('page', String(next));
+      else updated.delete('page');
+      return updated;
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const openEditor = () => {
+    setDraftDescription(topic?.description ?? '');
+    setIsEditing(true);
+  };
+
+  return (
+    <Layout>
+      <div className="container px-3 sm:px-4 py-8 md:py-12">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <header className="space-y-4 rounded-3xl border bg-gradient-to-b from-background via-background to-muted/60 p-5 md:p-7">
+            <p className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground">
+              {kind === 'tag' ? 'Tag' : 'Category'}
+            </p>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+              <div className="space-y-2">
+                <h1 className="font-display text-3xl font-bold tracking-tight md:text-4xl">{label}</h1>
+                {topic?.description && (
+                  <p className="max-w-2xl text-sm leading-relaxed text-muted-foreground md:text-base">
+                    {topic.description}
+                  </p>
+                )}
+                {data && (
+                  <p className="text-xs text-muted-foreground">
+                    {total} {total === 1 ? 'post' : 'posts'}
+                  </p>
+                )}
+              </div>
+              <div className="flex shrink-0 flex-wrap gap-2">
+                {hasRole('moderator') && (
+                  <Button type="button" variant="ghost" size="sm" className="gap-2 rounded-full" onClick={openEditor}>
+                    <Pencil className="h-3.5 w-3.5" />
+                    {topic?.description ? 'Edit description' : 'Add description'}
+                  </Button>
+                )}
+                <Button asChild variant="outline" size="sm" className="gap-2 rounded-full">
+                  <a href={getTopicFeedUrl(kind, name)} target="_blank" rel="noreferrer">
+                    <Rss className="h-3.5 w-3.5" />
+                    RSS feed
+                  </a>
+                </Button>
+              </div>
+            </div>
+          </header>
+
+          {isError ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center gap-3 py-10 text-center">
+                <p className="text-sm text-muted-foreground">We couldn't load these posts. Please try again.</p>
+                <Button type="button" variant="outline" size="sm" onClick={() => refetch()} className="rounded-full px-4">
+                  Try again
+                </Button>
+              </CardContent>
+            </Card>
+          ) : isLoading ? (
+            <div className="grid gap-4 md:grid-cols-2">
+              {[1, 2, 3, 4].map((i) => (
+                <Card key={i}>
+                  <CardHeader className="space-y-2">
+                    <Skeleton className="h-5 w-3/4" />
+                    <Skeleton className="h-3 w-1/2" />
+                  </CardHeader>
+                  <CardContent>
+                    <Skeleton className="h-16 w-full" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : data && data.posts.length > 0 ? (
+            <div className="space-y-6">
+              <div className="grid gap-5 md:grid-cols-2">
+                {data.posts.map((post) => (
+                  <Link key={post.id} to={getPostPath(post.slug)}>
+                    <Card className="group h-full transition-all duration-300 hover:-translate-y-1.5 hover:border-primary/30 hover:shadow-lg">
+                      <CardHeader className="space-y-2.5 px-4 py-4 md:px-5 md:py-5">
+                        <div className="flex items-start justify-between gap-2">
+                          <CardTitle className="line-clamp-2 font-display text-base font-semibold transition-colors group-hover:text-primary md:text-lg">
+                            {post.title}
+                          </CardTitle>
+                          <BookmarkButton postId={post.id} className="-mr-2 -mt-1 shrink-0" />
+                        </div>
+                        <CardDescription className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                          {post.profiles && (
+                            <AuthorCard
+                              authorId={post.author_id}
+                              displayName={post.profiles.display_name}
+                              avatarUrl={post.profiles.avatar_url}
+                              compact
+                            />
+                          )}
+                          {post.published_at && (
+                            <span className="flex items-center gap-1">
+                              <Calendar className="h-3 w-3" />
+                              {formatDistanceToNow(new Date(post.published_at), { addSuffix: true })}
+                            </span>
+                          )}
+                          <span className="text-[0.65rem] uppercase tracking-wide text-muted-foreground">
+                            {post.reading_time_minutes} min read
+                          </span>
+                        </CardDescription>
+                      </CardHeader>
+                      {post.excerpt && (
+                        <CardContent className="px-4 pb-4 pt-0 md:px-5 md:pb-5">
+                          <p className="line-clamp-3 text-[0.8rem] text-muted-foreground md:text-sm">{post.excerpt}</p>
+                        </CardContent>
+                      )}
+                    </Card>
+                  </Link>
+                ))}
+              </div>
+
+              {pageCount > 1 && (
+                <nav aria-label={`${label} pages`} className="flex items-center justify-between">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-1 rounded-full"
+                    disabled={page <= 1}
+                    onClick={() => goToPage(page - 1)}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Newer
+                  </Button>
+                  <span className="text-xs text-muted-foreground">
+                    Page {page} of {pageCount}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-1 rounded-full"
+                    disabled={page >= pageCount}
+                    onClick={() => goToPage(page + 1)}
+                  >
+                    Older
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </nav>
+              )}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center gap-3 py-10 text-center">
+                <p className="text-sm text-muted-foreground">No published posts in {label} yet.</p>
+                <Link to="/" className="text-xs font-medium text-primary hover:underline sm:text-sm">
+                  Browse the latest posts →
+                </Link>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={isEditing} onOpenChange={setIsEditing}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Describe {label}</DialogTitle>
+            <DialogDescription>Shown at the top of this page. Leave it empty to remove it.</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={draftDescription}
+            onChange={(e) => setDraftDescription(e.target.value)}
+            maxLength={MAX_DESCRIPTION_LENGTH}
+            rows={4}
+            placeholder="What readers will find here…"
+          />
+          <p className="text-right text-xs text-muted-foreground">
+            {draftDescription.length}/{MAX_DESCRIPTION_LENGTH}
+          </p>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={() => saveDescriptionMutation.mutate(draftDescription.trim())}
+              disabled={saveDescriptionMutation.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
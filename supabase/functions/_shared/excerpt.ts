@@ -0,0 +1,15 @@
+// The app imports this too (via src/lib/excerpt.ts), so keep it free of Deno and browser APIs
+export function buildExcerpt(markdown?: string, summary?: string, maxLength = 220): string | null {
+  const source =
+    summary ||
+    markdown
+      ?.split('\n')
+      .find((line) => line.trim().length > 40 && !line.trim().startsWith('#'));
+
+  if (!source) return null;
+
+  const plain = source.replace(/[#*_`>]/g, '').trim();
+  if (plain.length <= maxLength) return plain;
+
+  return plain.slice(0, maxLength).trimEnd() + '…';
+}
@@ -0,0 +1,81 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  tier: string;
+  limitedBy: 'minute' | 'day' | null;
+  minuteLimit: number;
+  minuteRemaining: number;
+  dayLimit: number;
+  dayRemaining: number;
+  retryAfter: number;
+}
+
+// Logged as error_message on rejected calls; the admin usage console matches on these
+export const RATE_LIMIT_MESSAGES = {
+  minute: 'Rate limit exceeded',
+  day: 'Daily quota exceeded',
+} as const;
+
+/**
+ * Spends one request from the user's quota. The check and the increment
+ * happen in a single database call, so concurrent requests cannot overshoot.
+ * Needs a service-role client: the RPC is not callable by end users.
+ */
+export async function consumeRateLimit(
+  serviceSupabase: SupabaseClient,
+  userId: string,
+  scope = 'firecrawl',
+): Promise<RateLimitResult | null> {
+  const { data, error } = await serviceSupabase
+    .rpc('consume_rate_limit', { _user_id: userId, _scope: scope })
+    .single();
+
+  if (error || !data) {
+    // Fail open: a broken limiter should not take every Firecrawl feature down with it
+    console.error('Error checking rate limit:', error?.message);
+    return null;
+  }
+
+  return {
+    allowed: data.allowed,
+    tier: data.tier,
+    limitedBy: data.limited_by,
+    minuteLimit: data.minute_limit,
+    minuteRemaining: data.minute_remaining,
+    dayLimit: data.day_limit,
+    dayRemaining: data.day_remaining,
+    retryAfter: data.retry_after,
+  };
+}
+
+export function rateLimitHeaders(result: RateLimitResult | null): Record<string, string> {
+  if (!result) return {};
+
+  return {
+    'X-RateLimit-Tier': result.tier,
+    'X-RateLimit-Limit': String(result.minuteLimit),
+    'X-RateLimit-Remaining': String(result.minuteRemaining),
+    'X-RateLimit-Daily-Limit': String(result.dayLimit),
+    'X-RateLimit-Daily-Remaining': String(result.dayRemaining),
+  };
+}
+
+export function rateLimitExceededResponse(result: RateLimitResult, corsHeaders: Record<string, string>): Response {
+  const error = result.limitedBy === 'day'
+    ? `Daily quota of ${result.dayLimit} requests reached. It resets at midnight UTC.`
+    : 'Rate limit exceeded. Please wait before making more requests.';
+
+  return new Response(
+    JSON.stringify({ success: false, error, retryAfter: result.retryAfter }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        ...rateLimitHeaders(result),
+        'Content-Type': 'application/json',
+        'Retry-After': String(result.retryAfter),
+      },
+    },
+  );
+}
@@ -0,0 +1,335 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Marked } from 'https://esm.sh/marked@12';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, if-none-match',
+};
+
+const ITEM_LIMIT = 50;
+// Feed readers poll often; a short shared cache keeps that off the database
+const CACHE_CONTROL = 'public, max-age=600, s-maxage=600';
+
+type FeedFormat = 'rss' | 'atom' | 'json';
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+interface FeedPost {
+  id: string;
+  slug: string;
+  title: string;
+  excerpt: string | null;
+  content_markdown: string;
+  published_at: string;
+  updated_at: string;
+  tags: string[];
+  category: string | null;
+  author_id: string;
+  profiles: { display_name: string } | null;
+}
+
+interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string | null;
+  html: string;
+  published: string;
+  updated: string;
+  author: string | null;
+  categories: string[];
+}
+
+interface Feed {
+  title: string;
+  description: string;
+  /** The page on the site this feed mirrors */
+  homeUrl: string;
+  /** This feed's own URL, in the requested format */
+  selfUrl: string;
+  updated: string;
+  items: FeedItem[];
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// CDATA can hold any HTML except its own terminator, which is split across two sections
+const cdata = (value: string) => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+// Links in the feed point at the web app, not at this function. The address comes from
+// config and never from the request, so nobody can mint a feed linking elsewhere.
+function getSiteUrl() {
+  return Deno.env.get('SITE_URL')?.replace(/\/$/, '') || null;
+}
+
+// Same schemes react-markdown lets through on the site
+const isSafeUrl = (url: string) => !/^[a-z][a-z\d+.-]*:/i.test(url) || /^(https?|mailto):/i.test(url);
+
+// Feed readers render content_html as is, so raw HTML in a post is shown as text,
+// exactly as the post page does, and script-capable links are reduced to their text
+const markdown = new Marked({
+  gfm: true,
+  async: false,
+  renderer: {
+    html: (html: string) => escapeXml(html),
+    link: (href: string, _title: string | null | undefined, text: string) => (isSafeUrl(href) ? false : text),
+    image: (href: string, _title: string | null, text: string) => (isSafeUrl(href) ? false : escapeXml(text)),
+  },
+});
+
+function renderRss(feed: Feed) {
+  const items = feed.items
+    .map((item) =>
+      [
+        '    <item>',
+        `      <title>${escapeXml(item.title)}</title>`,
+        `      <link>${escapeXml(item.url)}</link>`,
+        `      <guid isPermaLink="false">${item.id}</guid>`,
+        `      <pubDate>${new Date(item.published).toUTCString()}</pubDate>`,
+        item.author ? `      <dc:creator>${escapeXml(item.author)}</dc:creator>` : '',
+        item.summary ? `      <description>${escapeXml(item.summary)}</description>` : '',
+        `      <content:encoded>${cdata(item.html)}</content:encoded>`,
+        ...item.categories.map((category) => `      <category>${escapeXml(category)}</category>`),
+        '    </item>',
+      ]
+        .filter(Boolean)
+        .join('\n'),
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homeUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>
+${items}
+  </channel>
+</rss>
+`;
+}
+
+function renderAtom(feed: Feed) {
+  const entries = feed.items
+    .map((item) =>
+      [
+        '  <entry>',
+        `    <title>${escapeXml(item.title)}</title>`,
+        `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+        `    <id>urn:uuid:${item.id}</id>`,
+        `    <published>${new Date(item.published).toISOString()}</published>`,
+        `    <updated>${new Date(item.updated).toISOString()}</updated>`,
+        item.author ? `    <author><name>${escapeXml(item.author)}</name></author>` : '',
+        item.summary ? `    <summary>${escapeXml(item.summary)}</summary>` : '',
+        `    <content type="html">${escapeXml(item.html)}</content>`,
+        ...item.categories.map((category) => `    <category term="${escapeXml(category)}" />`),
+        '  </entry>',
+      ]
+        .filter(Boolean)
+        .join('\n'),
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}" />
+  <id>${escapeXml(feed.selfUrl)}</id>
+  <updated>${new Date(feed.updated).toISOString()}</updated>
+${entries}
+</feed>
+`;
+}
+
+function renderJson(feed: Feed) {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.selfUrl,
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary ?? undefined,
+      content_html: item.html,
+      date_published: new Date(item.published).toISOString(),
+      date_modified: new Date(item.updated).toISOString(),
+      authors: item.author ? [{ name: item.author }] : undefined,
+      tags: item.categories.length > 0 ? item.categories : undefined,
+    })),
+  });
+}
+
+const RENDERERS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJson,
+};
+
+async function computeEtag(body: string) {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `"${hex}"`;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// req.url is the function's internal address, so the public one is rebuilt from the
+// project URL with only the parameters that pick the feed, in the order the app uses
+function getSelfUrl(scope: Record<string, string | null>, format: FeedFormat) {
+  const params = new URLSearchParams();
+  Object.entries(scope).forEach(([key, value]) => value && params.set(key, value));
+  if (format !== 'rss') params.set('format', format);
+  const query = params.toString();
+  return `${Deno.env.get('SUPABASE_URL')}/functions/v1/feed${query ? `?${query}` : ''}`;
+}
+
+const jsonError = (status: number, error: string) =>
+  new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const requestUrl = new URL(req.url);
+    const tag = requestUrl.searchParams.get('tag');
+    const category = requestUrl.searchParams.get('category');
+    const authorId = requestUrl.searchParams.get('author');
+    const format = (requestUrl.searchParams.get('format') ?? 'rss') as FeedFormat;
+
+    // hasOwn rather than `in`, which would also accept Object.prototype keys like toString
+    if (!Object.hasOwn(RENDERERS, format)) {
+      return jsonError(400, 'Format must be rss, atom or json');
+    }
+    if (authorId && !UUID_PATTERN.test(authorId)) {
+      return jsonError(400, 'Author must be a profile id');
+    }
+
+    // Only public posts end up in a feed, so the anonymous key and its RLS are enough
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!
+    );
+
+    const siteUrl = getSiteUrl();
+    if (!siteUrl) {
+      console.error('SITE_URL is not configured');
+      return jsonError(500, 'Feeds are not configured');
+    }
+
+    let title = 'QuillScroll';
+    let description = 'The latest posts on QuillScroll.';
+    let homeUrl = siteUrl;
+
+    if (authorId) {
+      const { data: author, error: authorError } = await supabase
+        .from('profiles')
+        .select('display_name, bio')
+        .eq('id', authorId)
+        .maybeSingle();
+      if (authorError) {
+        console.error('Error loading feed author:', authorError.message);
+        return jsonError(500, authorError.message);
+      }
+      if (!author) {
+        return jsonError(404, 'Author not found');
+      }
+      title = `${author.display_name} on QuillScroll`;
+      description = author.bio || `The latest posts by ${author.display_name}.`;
+      homeUrl = `${siteUrl}/author/${authorId}`;
+    } else if (tag || category) {
+      const topic = tag ? `#${tag}` : category!;
+      title = `${topic} on QuillScroll`;
+      description = `The latest QuillScroll posts in ${topic}.`;
+      homeUrl = tag ? `${siteUrl}/tag/${encodeURIComponent(tag)}` : `${siteUrl}/category/${encodeURIComponent(category!)}`;
+    }
+
+    let query = supabase
+      .from('posts')
+      .select('id, slug, title, excerpt, content_markdown, published_at, updated_at, tags, category, author_id, profiles (display_name)')
+      .eq('is_published', true)
+      .eq('is_hidden', false)
+      .not('published_at', 'is', null);
+    if (authorId) query = query.eq('author_id', authorId);
+    if (tag) query = query.contains('tags', [tag]);
+    if (category) query = query.eq('category', category);
+
+    const { data, error } = await query.order('published_at', { ascending: false }).limit(ITEM_LIMIT);
+
+    if (error) {
+      console.error('Error loading feed posts:', error.message);
+      return jsonError(500, error.message);
+    }
+
+    const posts = (data ?? []) as FeedPost[];
+    const items: FeedItem[] = posts.map((post) => ({
+      id: post.id,
+      url: `${siteUrl}/post/${post.slug}`,
+      title: post.title,
+      summary: post.excerpt,
+      html: markdown.parse(post.content_markdown) as string,
+      published: post.published_at,
+      updated: post.updated_at,
+      author: post.profiles?.display_name ?? null,
+      categories: [post.category, ...(post.tags ?? [])].filter((value): value is string => !!value),
+    }));
+
+    const updated = items.reduce(
+      (latest, item) => (item.updated > latest ? item.updated : latest),
+      items[0]?.updated ?? new Date(0).toISOString(),
+    );
+
+    const body = RENDERERS[format]({
+      title,
+      description,
+      homeUrl,
+      selfUrl: getSelfUrl({ tag, category, author: authorId }, format),
+      updated,
+      items,
+    });
+
+    const etag = await computeEtag(body);
+    const cacheHeaders = {
+      'Cache-Control': CACHE_CONTROL,
+      ETag: etag,
+      'Last-Modified': new Date(updated).toUTCString(),
+    };
+
+    if (req.headers.get('If-None-Match') === etag) {
+      return new Response(null, { status: 304, headers: { ...corsHeaders, ...cacheHeaders } });
+    }
+
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        ...cacheHeaders,
+        'Content-Type': CONTENT_TYPES[format],
+      },
+    });
+  } catch (error) {
+    console.error('Error building feed:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to build feed';
+    return jsonError(500, errorMessage);
+  }
+});
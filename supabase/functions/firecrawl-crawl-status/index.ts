@@ -0,0 +1,192 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildExcerpt } from '../_shared/excerpt.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Firecrawl pages large crawl results; stop following `next` after this many pages
+const MAX_RESULT_PAGES = 20;
+
+interface CrawledDocument {
+  markdown?: string;
+  metadata?: {
+    title?: string;
+    ogTitle?: string;
+    description?: string;
+    ogDescription?: string;
+    sourceURL?: string;
+    url?: string;
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      console.error('Missing or invalid authorization header');
+      return new Response(
+        JSON.stringify({ success: false, error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await supabase.auth.getUser(token);
+
+    if (claimsError || !claimsData?.user) {
+      console.error('Invalid authentication token:', claimsError?.message);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid authentication' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const userId = claimsData.user.id;
+
+    // Service role client: job rows and pages are only written from here
+    const serviceSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { jobId } = await req.json();
+
+    if (!jobId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'jobId is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: job, error: jobError } = await serviceSupabase
+      .from('crawl_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+    if (!job) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Crawl job not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    // Finished jobs already have their pages stored
+    if (job.status !== 'scraping') {
+      return new Response(
+        JSON.stringify({ success: true, job }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const apiKey = Deno.env.get('FIRECRAWL_API_KEY');
+    if (!apiKey) {
+      console.error('FIRECRAWL_API_KEY not configured');
+      return new Response(
+        JSON.stringify({ success: false, error: 'Firecrawl connector not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    let nextUrl: string | null = `https://api.firecrawl.dev/v1/crawl/${job.firecrawl_job_id}`;
+    let status = job.status as string;
+    let total = job.total as number;
+    let completed = job.completed as number;
+    const documents: CrawledDocument[] = [];
+
+    for (let page = 0; nextUrl && page < MAX_RESULT_PAGES; page++) {
+      const response = await fetch(nextUrl, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        console.error('Firecrawl API error:', data);
+        return new Response(
+          JSON.stringify({ success: false, error: data.error || `Request failed with status ${response.status}` }),
+          { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      status = data.status;
+      total = data.total ?? total;
+      completed = data.completed ?? completed;
+
+      // Partial results are ignored; pages are stored once, when the crawl is done
+      if (status !== 'completed') break;
+
+      documents.push(...(data.data ?? []));
+      nextUrl = data.next ?? null;
+    }
+
+    if (status === 'completed' && documents.length > 0) {
+      const rows = documents
+        .filter((doc) => doc.markdown?.trim())
+        .map((doc) => {
+          const url = doc.metadata?.sourceURL || doc.metadata?.url || job.source_url;
+          return {
+            job_id: job.id,
+            url,
+            title: (doc.metadata?.ogTitle || doc.metadata?.title || url).trim().slice(0, 200),
+            excerpt: buildExcerpt(doc.markdown!, doc.metadata?.ogDescription || doc.metadata?.description),
+            content_markdown: doc.markdown!.trim(),
+          };
+        });
+
+      const { error: pagesError } = await serviceSupabase
+        .from('crawl_job_pages')
+        .upsert(rows, { onConflict: 'job_id,url', ignoreDuplicates: true });
+
+      if (pagesError) throw pagesError;
+    }
+
+    // Stopping early still leaves a link to more results; the review screen says so
+    const resultsTruncated = status === 'completed' && !!nextUrl;
+    if (resultsTruncated) {
+      console.warn(`Crawl job ${job.id}: stopped after ${MAX_RESULT_PAGES} result pages`);
+    }
+
+    const { data: updated, error: updateError } = await serviceSupabase
+      .from('crawl_jobs')
+      .update({
+        status,
+        total,
+        completed,
+        results_truncated: resultsTruncated,
+        error_message: status === 'failed' ? 'Firecrawl could not finish this crawl' : null,
+      })
+      .eq('id', job.id)
+      .select('*')
+      .single();
+
+    if (updateError) throw updateError;
+
+    console.log(`Crawl job ${job.id}: ${status} (${completed}/${total})`);
+    return new Response(
+      JSON.stringify({ success: true, job: updated }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Error checking crawl status:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to check crawl status';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
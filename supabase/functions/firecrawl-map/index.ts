@@ -1,14 +1,16 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  RATE_LIMIT_MESSAGES,
+  consumeRateLimit,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from '../_shared/rate-limit.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Rate limiting configuration
-const RATE_LIMIT_MAX_REQUESTS = 20;
-const RATE_LIMIT_WINDOW_SECONDS = 60;
-
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -51,47 +53,21 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     );
 
-    // Check rate limit
-    const windowStart = new Date(Date.now() - RATE_LIMIT_WINDOW_SECONDS * 1000).toISOString();
-    const { count, error: countError } = await serviceSupabase
-      .from('firecrawl_usage_logs')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', userId)
-      .gte('created_at', windowStart);
+    // Check rate limit (tier-based, atomic in the database)
+    const rateLimit = await consumeRateLimit(serviceSupabase, userId);
 
-    if (countError) {
-      console.error('Error checking rate limit:', countError.message);
-    }
+    if (rateLimit && !rateLimit.allowed) {
+      console.warn(`Rate limit exceeded for user ${userId} (${rateLimit.tier}, per ${rateLimit.limitedBy})`);
 
-    const currentCount = count || 0;
-    if (currentCount >= RATE_LIMIT_MAX_REQUESTS) {
-      console.warn(`Rate limit exceeded for user ${userId}: ${currentCount}/${RATE_LIMIT_MAX_REQUESTS}`);
-      
       // Log the rate-limited attempt
       await serviceSupabase.from('firecrawl_usage_logs').insert({
         user_id: userId,
         function_name: 'map',
         success: false,
-        error_message: 'Rate limit exceeded',
+        error_message: RATE_LIMIT_MESSAGES[rateLimit.limitedBy ?? 'minute'],
       });
 
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Rate limit exceeded. Please wait before making more requests.',
-          retryAfter: RATE_LIMIT_WINDOW_SECONDS,
-        }),
-        {
-          status: 429,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-            'Retry-After': String(RATE_LIMIT_WINDOW_SECONDS),
-            'X-RateLimit-Limit': String(RATE_LIMIT_MAX_REQUESTS),
-            'X-RateLimit-Remaining': '0',
-          },
-        },
-      );
+      return rateLimitExceededResponse(rateLimit, corsHeaders);
     }
 
     const { url, options } = await req.json();
@@ -158,8 +134,7 @@ Deno.serve(async (req) => {
       headers: {
         ...corsHeaders,
         'Content-Type': 'application/json',
-        'X-RateLimit-Limit': String(RATE_LIMIT_MAX_REQUESTS),
-        'X-RateLimit-Remaining': String(RATE_LIMIT_MAX_REQUESTS - currentCount - 1),
+        ...rateLimitHeaders(rateLimit),
       },
     });
   } catch (error) {
@@ -0,0 +1,192 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Link preview bots (Slack, X, Facebook, iMessage...) don't run the app's JavaScript,
+// so the host rewrites their requests for /post/* and /author/* here (see "Link previews"
+// in the README). The page they get carries the right tags and sends any human who lands
+// on it on to the real page.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const CACHE_CONTROL = 'public, max-age=300, s-maxage=300';
+
+// Mirrors the defaults in index.html
+const SITE_TITLE = 'QuillScroll Modern creator publishing';
+const SITE_DESCRIPTION =
+  'QuillScroll demonstrates product thinking, clean UX, and scalable CRUD architecture, making it a strong portfolio project for modern frontend and full stack roles.';
+const SITE_IMAGE =
+  'https://storage.googleapis.com/gpt-engineer-file-uploads/ZIEPeT7qXfg0WbBNkQfDdyb4Qad2/social-images/social-1767669044931-Quillscroll.png';
+
+interface PageMeta {
+  title: string;
+  description: string;
+  image: string;
+  type: 'website' | 'article' | 'profile';
+  url: string;
+  canonicalUrl: string;
+  publishedAt?: string | null;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Every page sends visitors on to the site, so its address comes from config and never
+// from the request; otherwise the redirect could be pointed anywhere
+function getSiteUrl() {
+  return Deno.env.get('SITE_URL')?.replace(/\/$/, '') || null;
+}
+
+function renderPage(meta: PageMeta) {
+  const tags = [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(meta.description)}" />`,
+    `<link rel="canonical" href="${escapeHtml(meta.canonicalUrl)}" />`,
+    `<meta property="og:type" content="${meta.type}" />`,
+    `<meta property="og:site_name" content="QuillScroll" />`,
+    `<meta property="og:title" content="${escapeHtml(meta.title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(meta.description)}" />`,
+    `<meta property="og:url" content="${escapeHtml(meta.url)}" />`,
+    `<meta property="og:image" content="${escapeHtml(meta.image)}" />`,
+    meta.publishedAt ? `<meta property="article:published_time" content="${new Date(meta.publishedAt).toISOString()}" />` : '',
+    `<meta name="twitter:card" content="summary_large_image" />`,
+    `<meta name="twitter:title" content="${escapeHtml(meta.title)}" />`,
+    `<meta name="twitter:description" content="${escapeHtml(meta.description)}" />`,
+    `<meta name="twitter:image" content="${escapeHtml(meta.image)}" />`,
+    `<meta http-equiv="refresh" content="0; url=${escapeHtml(meta.url)}" />`,
+  ].filter(Boolean);
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    ${tags.join('\n    ')}
+  </head>
+  <body>
+    <p><a href="${escapeHtml(meta.url)}">${escapeHtml(meta.title)}</a></p>
+  </body>
+</html>
+`;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const siteUrl = getSiteUrl();
+    if (!siteUrl) {
+      console.error('SITE_URL is not configured');
+      return new Response(
+        JSON.stringify({ success: false, error: 'Link previews are not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    // Anything but a site path (e.g. "@evil.example") would change the redirect's host
+    const requestUrl = new URL(req.url);
+    const requestedPath = requestUrl.searchParams.get('path') ?? '/';
+    const path = requestedPath.startsWith('/') ? requestedPath : '/';
+
+    // Only public content gets a preview, so the anonymous key and its RLS are enough
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!
+    );
+
+    const pageUrl = `${siteUrl}${path}`;
+    let meta: PageMeta = {
+      title: SITE_TITLE,
+      description: SITE_DESCRIPTION,
+      image: SITE_IMAGE,
+      type: 'website',
+      url: pageUrl,
+      canonicalUrl: pageUrl,
+    };
+
+    const postMatch = path.match(/^\/post\/([^/?#]+)/);
+    const authorMatch = path.match(/^\/author\/([^/?#]+)/);
+
+    if (postMatch) {
+      const slug = decodeURIComponent(postMatch[1]);
+      const select = 'slug, title, excerpt, published_at, canonical_url, meta_title, meta_description, og_image_url';
+      let { data: post } = await supabase
+        .from('posts')
+        .select(select)
+        .eq('slug', slug)
+        .eq('is_published', true)
+        .eq('is_hidden', false)
+        .maybeSingle();
+
+      // Old links keep working after a rename, so their previews should too
+      if (!post) {
+        const { data: history } = await supabase
+          .from('post_slug_history')
+          .select('post_id')
+          .eq('slug', slug)
+          .maybeSingle();
+        if (history) {
+          ({ data: post } = await supabase
+            .from('posts')
+            .select(select)
+            .eq('id', history.post_id)
+            .eq('is_published', true)
+            .eq('is_hidden', false)
+            .maybeSingle());
+        }
+      }
+
+      if (post) {
+        const url = `${siteUrl}/post/${post.slug}`;
+        meta = {
+          title: post.meta_title || `${post.title} · QuillScroll`,
+          description: post.meta_description || post.excerpt || SITE_DESCRIPTION,
+          image: post.og_image_url || SITE_IMAGE,
+          type: 'article',
+          url,
+          canonicalUrl: post.canonical_url || url,
+          publishedAt: post.published_at,
+        };
+      }
+    } else if (authorMatch) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('id, display_name, bio, avatar_url')
+        .eq('id', decodeURIComponent(authorMatch[1]))
+        .maybeSingle();
+
+      if (profile) {
+        const url = `${siteUrl}/author/${profile.id}`;
+        meta = {
+          title: `${profile.display_name} · QuillScroll`,
+          description: profile.bio || `Posts by ${profile.display_name} on QuillScroll.`,
+          image: profile.avatar_url || SITE_IMAGE,
+          type: 'profile',
+          url,
+          canonicalUrl: url,
+        };
+      }
+    }
+
+    return new Response(renderPage(meta), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering preview page:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to render preview';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
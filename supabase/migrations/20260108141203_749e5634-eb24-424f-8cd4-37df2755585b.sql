@@ -0,0 +1,38 @@
+-- Snapshot of a post taken every time the author saves it from the editor
+CREATE TABLE public.post_revisions (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  excerpt text,
+  content_markdown text NOT NULL,
+  tags text[] DEFAULT '{}'::text[] NOT NULL,
+  category text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_post_revisions_post_time ON public.post_revisions USING btree (post_id, created_at DESC);
+
+ALTER TABLE public.post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are private to the author of the post they belong to
+CREATE POLICY "Authors can view own post revisions"
+ON public.post_revisions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.author_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Authors can create own post revisions"
+ON public.post_revisions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = author_id
+  AND EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.author_id = auth.uid()
+  )
+);
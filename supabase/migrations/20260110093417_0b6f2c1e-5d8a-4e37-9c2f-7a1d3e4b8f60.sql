@@ -0,0 +1,20 @@
+-- Posts can be queued to go live at a future time
+ALTER TABLE public.posts
+  ADD COLUMN scheduled_for timestamp with time zone;
+
+CREATE INDEX idx_posts_scheduled_for
+  ON public.posts USING btree (scheduled_for)
+  WHERE is_published = false AND scheduled_for IS NOT NULL;
+
+-- Run the publisher every minute; it flips every due post to published
+SELECT cron.schedule(
+  'publish-scheduled-posts',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://cusvakgrgcloixqljohm.supabase.co/functions/v1/publish-scheduled-posts',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
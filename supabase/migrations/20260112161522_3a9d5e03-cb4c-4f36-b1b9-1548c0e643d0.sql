@@ -0,0 +1,71 @@
+-- Previous public slugs of a post, so old links keep resolving after a rename
+CREATE TABLE public.post_slug_history (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  slug text NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT post_slug_history_slug_key UNIQUE (slug)
+);
+
+CREATE INDEX idx_post_slug_history_post ON public.post_slug_history USING btree (post_id);
+
+ALTER TABLE public.post_slug_history ENABLE ROW LEVEL SECURITY;
+
+-- Visible whenever the post it points to is visible (published, or your own)
+CREATE POLICY "Anyone can view slug history of visible posts"
+ON public.post_slug_history
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id
+  )
+);
+
+-- Remember the old slug whenever a published post's slug changes
+CREATE FUNCTION public.record_post_slug_change() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF NEW.slug IS DISTINCT FROM OLD.slug THEN
+    -- A post taking back one of its old slugs no longer needs the redirect
+    DELETE FROM public.post_slug_history WHERE slug = NEW.slug AND post_id = NEW.id;
+
+    IF OLD.is_published THEN
+      INSERT INTO public.post_slug_history (post_id, slug)
+      VALUES (OLD.id, OLD.slug)
+      ON CONFLICT (slug) DO UPDATE SET post_id = EXCLUDED.post_id, created_at = now();
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_posts_slug_change BEFORE UPDATE OF slug ON public.posts FOR EACH ROW EXECUTE FUNCTION public.record_post_slug_change();
+
+-- First free slug for a post: the base itself, then base-2, base-3, ...
+-- Slugs held by other posts, current or historical, are never reused.
+CREATE FUNCTION public.unique_post_slug(_base text, _post_id uuid DEFAULT NULL) RETURNS text
+    LANGUAGE plpgsql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  base text := COALESCE(NULLIF(_base, ''), 'post');
+  candidate text := base;
+  suffix integer := 1;
+BEGIN
+  WHILE EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE slug = candidate AND id IS DISTINCT FROM _post_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.post_slug_history
+    WHERE slug = candidate AND post_id IS DISTINCT FROM _post_id
+  ) LOOP
+    suffix := suffix + 1;
+    candidate := base || '-' || suffix;
+  END LOOP;
+
+  RETURN candidate;
+END;
+$$;
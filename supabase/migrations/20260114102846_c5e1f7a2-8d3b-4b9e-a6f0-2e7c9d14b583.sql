@@ -0,0 +1,68 @@
+-- Reader comments on published posts, threaded through parent_id
+CREATE TABLE public.comments (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES public.comments(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT comments_body_length CHECK (char_length(btrim(body)) BETWEEN 1 AND 5000)
+);
+
+CREATE INDEX idx_comments_post_time ON public.comments USING btree (post_id, created_at);
+CREATE INDEX idx_comments_parent ON public.comments USING btree (parent_id);
+
+CREATE TRIGGER update_comments_updated_at BEFORE UPDATE ON public.comments FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view comments on published posts"
+ON public.comments
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.is_published = true
+  )
+);
+
+-- Replies must stay on the same post as the comment they answer
+CREATE POLICY "Signed-in users can comment on published posts"
+ON public.comments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = author_id
+  AND EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.is_published = true
+  )
+  AND (
+    parent_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.comments parent
+      WHERE parent.id = parent_id AND parent.post_id = comments.post_id
+    )
+  )
+);
+
+CREATE POLICY "Users can update own comments"
+ON public.comments
+FOR UPDATE
+USING (auth.uid() = author_id)
+WITH CHECK (auth.uid() = author_id);
+
+CREATE POLICY "Users can delete own comments"
+ON public.comments
+FOR DELETE
+USING (auth.uid() = author_id);
+
+CREATE POLICY "Post authors can delete comments on their posts"
+ON public.comments
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.author_id = auth.uid()
+  )
+);
@@ -0,0 +1,250 @@
+-- Moderation: readers report posts and comments, moderators and admins
+-- hide, restore or ban, and every decision lands in an append-only audit log
+
+CREATE OR REPLACE FUNCTION public.can_moderate(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT public.has_role(_user_id, 'moderator') OR public.has_role(_user_id, 'admin')
+$$;
+
+ALTER TABLE public.posts ADD COLUMN is_hidden boolean DEFAULT false NOT NULL;
+ALTER TABLE public.comments ADD COLUMN is_hidden boolean DEFAULT false NOT NULL;
+
+-- Bans are kept out of profiles so users cannot lift their own through the profile update policy
+CREATE TABLE public.user_bans (
+  user_id uuid NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  banned_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reason text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.user_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own ban"
+ON public.user_bans
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Moderators can view bans"
+ON public.user_bans
+FOR SELECT
+USING (public.can_moderate(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.is_banned(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_bans WHERE user_id = _user_id)
+$$;
+
+CREATE TABLE public.content_reports (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  target_type text NOT NULL CHECK (target_type IN ('post', 'comment')),
+  target_id uuid NOT NULL,
+  reporter_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate', 'misinformation', 'other')),
+  details text CHECK (details IS NULL OR char_length(details) <= 1000),
+  status text DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT content_reports_once_per_reporter UNIQUE (target_type, target_id, reporter_id)
+);
+
+CREATE INDEX idx_content_reports_open ON public.content_reports USING btree (created_at) WHERE status = 'open';
+CREATE INDEX idx_content_reports_target ON public.content_reports USING btree (target_type, target_id);
+
+ALTER TABLE public.content_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can report content"
+ON public.content_reports
+FOR INSERT
+WITH CHECK (auth.uid() = reporter_id AND status = 'open' AND NOT public.is_banned(auth.uid()));
+
+CREATE POLICY "Users can view own reports"
+ON public.content_reports
+FOR SELECT
+USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Moderators can view reports"
+ON public.content_reports
+FOR SELECT
+USING (public.can_moderate(auth.uid()));
+
+CREATE TABLE public.moderation_actions (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  moderator_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN ('hide', 'restore', 'ban', 'unban', 'dismiss')),
+  target_type text NOT NULL CHECK (target_type IN ('post', 'comment', 'user')),
+  target_id uuid NOT NULL,
+  report_id uuid REFERENCES public.content_reports(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_moderation_actions_time ON public.moderation_actions USING btree (created_at DESC);
+
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+-- No insert/update/delete policies: rows are only written by moderate() below
+CREATE POLICY "Moderators can view moderation log"
+ON public.moderation_actions
+FOR SELECT
+USING (public.can_moderate(auth.uid()));
+
+-- Hidden content disappears for readers but stays visible to its author and to moderators
+DROP POLICY "Anyone can view published posts" ON public.posts;
+
+CREATE POLICY "Anyone can view published posts"
+ON public.posts
+FOR SELECT
+USING (is_published = true AND is_hidden = false);
+
+CREATE POLICY "Moderators can view reported or hidden posts"
+ON public.posts
+FOR SELECT
+USING (
+  public.can_moderate(auth.uid())
+  AND (
+    is_hidden = true
+    OR EXISTS (
+      SELECT 1 FROM public.content_reports r
+      WHERE r.target_type = 'post' AND r.target_id = posts.id
+    )
+  )
+);
+
+DROP POLICY "Authors can create own posts" ON public.posts;
+
+CREATE POLICY "Authors can create own posts"
+ON public.posts
+FOR INSERT
+WITH CHECK (auth.uid() = author_id AND NOT public.is_banned(auth.uid()));
+
+DROP POLICY "Anyone can view comments on published posts" ON public.comments;
+
+CREATE POLICY "Anyone can view comments on published posts"
+ON public.comments
+FOR SELECT
+USING (
+  (is_hidden = false OR auth.uid() = author_id OR public.can_moderate(auth.uid()))
+  AND EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.is_published = true
+  )
+);
+
+DROP POLICY "Signed-in users can comment on published posts" ON public.comments;
+
+CREATE POLICY "Signed-in users can comment on published posts"
+ON public.comments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = author_id
+  AND is_hidden = false
+  AND NOT public.is_banned(auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.is_published = true
+  )
+  AND (
+    parent_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.comments parent
+      WHERE parent.id = parent_id AND parent.post_id = comments.post_id
+    )
+  )
+);
+
+-- Authors may edit their comments but not un-hide them
+DROP POLICY "Users can update own comments" ON public.comments;
+
+CREATE POLICY "Users can update own comments"
+ON public.comments
+FOR UPDATE
+USING (auth.uid() = author_id AND is_hidden = false)
+WITH CHECK (auth.uid() = author_id AND is_hidden = false);
+
+-- Applies a moderation decision and records it in one transaction
+CREATE OR REPLACE FUNCTION public.moderate(
+  _action text,
+  _target_type text,
+  _target_id uuid,
+  _report_id uuid DEFAULT NULL,
+  _note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _moderator uuid := auth.uid();
+  _action_id uuid;
+BEGIN
+  IF NOT public.can_moderate(_moderator) THEN
+    RAISE EXCEPTION 'Only moderators can perform this action' USING ERRCODE = '42501';
+  END IF;
+
+  IF _action IN ('hide', 'restore') THEN
+    IF _target_type = 'post' THEN
+      UPDATE public.posts SET is_hidden = (_action = 'hide') WHERE id = _target_id;
+    ELSIF _target_type = 'comment' THEN
+      UPDATE public.comments SET is_hidden = (_action = 'hide') WHERE id = _target_id;
+    ELSE
+      RAISE EXCEPTION 'Cannot % a %', _action, _target_type;
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Nothing to % with id %', _action, _target_id;
+    END IF;
+
+    IF _action = 'hide' THEN
+      UPDATE public.content_reports
+      SET status = 'resolved', resolved_by = _moderator, resolved_at = now()
+      WHERE target_type = _target_type AND target_id = _target_id AND status = 'open';
+    END IF;
+  ELSIF _action IN ('ban', 'unban') THEN
+    IF _target_type <> 'user' THEN
+      RAISE EXCEPTION 'Only users can be banned';
+    END IF;
+    IF _target_id = _moderator THEN
+      RAISE EXCEPTION 'You cannot ban yourself';
+    END IF;
+
+    IF _action = 'ban' THEN
+      INSERT INTO public.user_bans (user_id, banned_by, reason)
+      VALUES (_target_id, _moderator, _note)
+      ON CONFLICT (user_id) DO NOTHING;
+    ELSE
+      DELETE FROM public.user_bans WHERE user_id = _target_id;
+    END IF;
+  ELSIF _action = 'dismiss' THEN
+    UPDATE public.content_reports
+    SET status = 'dismissed', resolved_by = _moderator, resolved_at = now()
+    WHERE target_type = _target_type AND target_id = _target_id AND status = 'open';
+  ELSE
+    RAISE EXCEPTION 'Unknown moderation action %', _action;
+  END IF;
+
+  -- A ban raised from a report closes that report too
+  IF _report_id IS NOT NULL THEN
+    UPDATE public.content_reports
+    SET status = 'resolved', resolved_by = _moderator, resolved_at = now()
+    WHERE id = _report_id AND status = 'open';
+  END IF;
+
+  INSERT INTO public.moderation_actions (moderator_id, action, target_type, target_id, report_id, note)
+  VALUES (_moderator, _action, _target_type, _target_id, _report_id, _note)
+  RETURNING id INTO _action_id;
+
+  RETURN _action_id;
+END;
+$$;
@@ -0,0 +1,145 @@
+-- Configurable rate-limit tiers for the firecrawl-* edge functions, with an
+-- atomic per-minute window and a daily quota per user
+
+CREATE TABLE public.rate_limit_tiers (
+  name text NOT NULL PRIMARY KEY,
+  description text,
+  per_minute integer NOT NULL CHECK (per_minute > 0),
+  per_day integer NOT NULL CHECK (per_day > 0),
+  is_exempt boolean DEFAULT false NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE TRIGGER update_rate_limit_tiers_updated_at BEFORE UPDATE ON public.rate_limit_tiers FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+INSERT INTO public.rate_limit_tiers (name, description, per_minute, per_day, is_exempt) VALUES
+  ('free', 'Default for every writer', 20, 200, false),
+  ('pro', 'Higher limits for heavy research and imports', 60, 2000, false),
+  ('admin', 'Not rate limited', 1000, 100000, true);
+
+ALTER TABLE public.rate_limit_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view rate limit tiers"
+ON public.rate_limit_tiers
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage rate limit tiers"
+ON public.rate_limit_tiers
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Users without a row fall back to 'admin' when they hold the admin role, otherwise 'free'
+CREATE TABLE public.user_rate_limit_tiers (
+  user_id uuid NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  tier text NOT NULL REFERENCES public.rate_limit_tiers(name) ON UPDATE CASCADE,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE TRIGGER update_user_rate_limit_tiers_updated_at BEFORE UPDATE ON public.user_rate_limit_tiers FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.user_rate_limit_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own rate limit tier"
+ON public.user_rate_limit_tiers
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage user rate limit tiers"
+ON public.user_rate_limit_tiers
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Fixed-window counters; only consume_rate_limit() touches them
+CREATE TABLE public.rate_limit_counters (
+  user_id uuid NOT NULL,
+  scope text NOT NULL,
+  window_kind text NOT NULL CHECK (window_kind IN ('minute', 'day')),
+  window_start timestamp with time zone NOT NULL,
+  count integer DEFAULT 0 NOT NULL,
+  PRIMARY KEY (user_id, scope, window_kind, window_start)
+);
+
+ALTER TABLE public.rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(_user_id uuid, _scope text DEFAULT 'firecrawl')
+RETURNS TABLE (
+  allowed boolean,
+  tier text,
+  limited_by text,
+  minute_limit integer,
+  minute_remaining integer,
+  day_limit integer,
+  day_remaining integer,
+  retry_after integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _tier public.rate_limit_tiers%ROWTYPE;
+  _minute_start timestamp with time zone := date_trunc('minute', now());
+  _day_start timestamp with time zone := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  _minute_count integer;
+  _day_count integer;
+BEGIN
+  SELECT t.* INTO _tier
+  FROM public.rate_limit_tiers t
+  WHERE t.name = COALESCE(
+    (SELECT u.tier FROM public.user_rate_limit_tiers u WHERE u.user_id = _user_id),
+    CASE WHEN public.has_role(_user_id, 'admin') THEN 'admin' ELSE 'free' END
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No rate limit tier configured for user %', _user_id;
+  END IF;
+
+  IF _tier.is_exempt THEN
+    RETURN QUERY SELECT true, _tier.name, NULL::text, _tier.per_minute, _tier.per_minute, _tier.per_day, _tier.per_day, 0;
+    RETURN;
+  END IF;
+
+  -- Serialise concurrent requests from the same user so check-and-increment cannot race
+  PERFORM pg_advisory_xact_lock(hashtext(_scope || ':' || _user_id::text));
+
+  SELECT COALESCE(SUM(c.count) FILTER (WHERE c.window_kind = 'minute' AND c.window_start = _minute_start), 0),
+         COALESCE(SUM(c.count) FILTER (WHERE c.window_kind = 'day' AND c.window_start = _day_start), 0)
+  INTO _minute_count, _day_count
+  FROM public.rate_limit_counters c
+  WHERE c.user_id = _user_id AND c.scope = _scope;
+
+  IF _day_count >= _tier.per_day THEN
+    RETURN QUERY SELECT false, _tier.name, 'day'::text, _tier.per_minute, GREATEST(_tier.per_minute - _minute_count, 0),
+      _tier.per_day, 0, CEIL(EXTRACT(EPOCH FROM (_day_start + interval '1 day' - now())))::integer;
+    RETURN;
+  END IF;
+
+  IF _minute_count >= _tier.per_minute THEN
+    RETURN QUERY SELECT false, _tier.name, 'minute'::text, _tier.per_minute, 0,
+      _tier.per_day, _tier.per_day - _day_count, CEIL(EXTRACT(EPOCH FROM (_minute_start + interval '1 minute' - now())))::integer;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.rate_limit_counters (user_id, scope, window_kind, window_start, count)
+  VALUES (_user_id, _scope, 'minute', _minute_start, 1), (_user_id, _scope, 'day', _day_start, 1)
+  ON CONFLICT (user_id, scope, window_kind, window_start)
+  DO UPDATE SET count = public.rate_limit_counters.count + 1;
+
+  -- Expired windows are pruned lazily by the user who owns them
+  DELETE FROM public.rate_limit_counters c
+  WHERE c.user_id = _user_id
+    AND c.scope = _scope
+    AND ((c.window_kind = 'minute' AND c.window_start < _minute_start)
+      OR (c.window_kind = 'day' AND c.window_start < _day_start));
+
+  RETURN QUERY SELECT true, _tier.name, NULL::text, _tier.per_minute, _tier.per_minute - _minute_count - 1,
+    _tier.per_day, _tier.per_day - _day_count - 1, 0;
+END;
+$$;
+
+-- Only edge functions (service role) may spend a user's quota
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(uuid, text) TO service_role;
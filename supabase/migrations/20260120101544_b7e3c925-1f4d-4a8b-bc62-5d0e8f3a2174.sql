@@ -0,0 +1,4 @@
+-- Where an imported post was first published, for rel=canonical and attribution
+ALTER TABLE public.posts
+  ADD COLUMN canonical_url text
+  CONSTRAINT posts_canonical_url_http CHECK (canonical_url IS NULL OR canonical_url ~* '^https?://');
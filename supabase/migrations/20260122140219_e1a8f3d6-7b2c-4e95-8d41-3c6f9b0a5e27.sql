@@ -0,0 +1,68 @@
+-- "Migrate my blog": a Firecrawl crawl tracked as a job, whose pages the
+-- writer reviews before any of them become drafts
+
+CREATE TABLE public.crawl_jobs (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  firecrawl_job_id text NOT NULL UNIQUE,
+  source_url text NOT NULL,
+  status text DEFAULT 'scraping' NOT NULL CHECK (status IN ('scraping', 'completed', 'failed', 'cancelled')),
+  total integer DEFAULT 0 NOT NULL,
+  completed integer DEFAULT 0 NOT NULL,
+  error_message text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_crawl_jobs_user_time ON public.crawl_jobs USING btree (user_id, created_at DESC);
+
+CREATE TRIGGER update_crawl_jobs_updated_at BEFORE UPDATE ON public.crawl_jobs FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.crawl_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created and advanced by the firecrawl-crawl and firecrawl-crawl-status functions
+CREATE POLICY "Users can view own crawl jobs"
+ON public.crawl_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own crawl jobs"
+ON public.crawl_jobs
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TABLE public.crawl_job_pages (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  job_id uuid NOT NULL REFERENCES public.crawl_jobs(id) ON DELETE CASCADE,
+  url text NOT NULL,
+  title text NOT NULL,
+  excerpt text,
+  content_markdown text NOT NULL,
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'imported', 'skipped')),
+  post_id uuid REFERENCES public.posts(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT crawl_job_pages_job_url_key UNIQUE (job_id, url)
+);
+
+ALTER TABLE public.crawl_job_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pages of own crawl jobs"
+ON public.crawl_job_pages
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.crawl_jobs j
+    WHERE j.id = job_id AND j.user_id = auth.uid()
+  )
+);
+
+-- Marking pages imported or skipped happens from the review screen
+CREATE POLICY "Users can update pages of own crawl jobs"
+ON public.crawl_job_pages
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.crawl_jobs j
+    WHERE j.id = job_id AND j.user_id = auth.uid()
+  )
+);
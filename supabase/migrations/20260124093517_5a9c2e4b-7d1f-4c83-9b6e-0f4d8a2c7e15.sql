@@ -0,0 +1,60 @@
+-- Title and site name fetched through Firecrawl for links cited in a post, so the
+-- reference list can show more than a bare URL
+CREATE TABLE public.post_sources (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  url text NOT NULL,
+  title text,
+  site_name text,
+  fetched_via text NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT post_sources_post_url_key UNIQUE (post_id, url),
+  CONSTRAINT post_sources_url_check CHECK (url ~* '^https?://'),
+  CONSTRAINT post_sources_fetched_via_check CHECK (fetched_via IN ('scrape', 'search'))
+);
+
+CREATE TRIGGER update_post_sources_updated_at BEFORE UPDATE ON public.post_sources FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.post_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view sources of visible posts"
+ON public.post_sources
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id
+      AND ((p.is_published = true AND p.is_hidden = false) OR p.author_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Authors can add sources to own posts"
+ON public.post_sources
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.author_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Authors can update sources of own posts"
+ON public.post_sources
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.author_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Authors can delete sources of own posts"
+ON public.post_sources
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.author_id = auth.uid()
+  )
+);
@@ -0,0 +1,37 @@
+-- Where each signed-in reader left off in a post, so they can pick up again later.
+-- Guests keep the same data in local storage instead.
+CREATE TABLE public.reading_progress (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  progress smallint DEFAULT 0 NOT NULL CHECK (progress BETWEEN 0 AND 100),
+  completed boolean DEFAULT false NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, post_id)
+);
+
+CREATE INDEX idx_reading_progress_user_time ON public.reading_progress USING btree (user_id, updated_at DESC);
+
+CREATE TRIGGER update_reading_progress_updated_at BEFORE UPDATE ON public.reading_progress FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.reading_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reading progress"
+ON public.reading_progress
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record own reading progress"
+ON public.reading_progress
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own reading progress"
+ON public.reading_progress
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reading progress"
+ON public.reading_progress
+FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,92 @@
+-- Posts readers saved for later, optionally filed into named reading lists
+CREATE TABLE public.reading_lists (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT reading_lists_user_name_key UNIQUE (user_id, name),
+  CONSTRAINT reading_lists_name_length CHECK (char_length(btrim(name)) BETWEEN 1 AND 60)
+);
+
+CREATE TRIGGER update_reading_lists_updated_at BEFORE UPDATE ON public.reading_lists FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE TABLE public.bookmarks (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  list_id uuid REFERENCES public.reading_lists(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT bookmarks_user_post_key UNIQUE (user_id, post_id)
+);
+
+CREATE INDEX idx_bookmarks_user_time ON public.bookmarks USING btree (user_id, created_at DESC);
+CREATE INDEX idx_bookmarks_list ON public.bookmarks USING btree (list_id);
+
+ALTER TABLE public.reading_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bookmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reading lists"
+ON public.reading_lists
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own reading lists"
+ON public.reading_lists
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own reading lists"
+ON public.reading_lists
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reading lists"
+ON public.reading_lists
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own bookmarks"
+ON public.bookmarks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Only live posts can be saved, and only into the reader's own lists
+CREATE POLICY "Users can bookmark published posts"
+ON public.bookmarks
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.is_published = true AND p.is_hidden = false
+  )
+  AND (
+    list_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.reading_lists l
+      WHERE l.id = list_id AND l.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can file own bookmarks"
+ON public.bookmarks
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    list_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.reading_lists l
+      WHERE l.id = list_id AND l.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can delete own bookmarks"
+ON public.bookmarks
+FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,28 @@
+-- Readers following authors; drives follower counts and the "Following" feed
+CREATE TABLE public.follows (
+  follower_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  following_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  PRIMARY KEY (follower_id, following_id),
+  CONSTRAINT follows_not_self CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX idx_follows_following ON public.follows USING btree (following_id);
+
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+-- Follower and following counts are public, like on any profile
+CREATE POLICY "Anyone can view follows"
+ON public.follows
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can follow authors"
+ON public.follows
+FOR INSERT
+WITH CHECK (auth.uid() = follower_id);
+
+CREATE POLICY "Users can unfollow authors"
+ON public.follows
+FOR DELETE
+USING (auth.uid() = follower_id);
@@ -0,0 +1,49 @@
+-- Lightweight reactions on posts: each reader can leave each reaction once
+CREATE TABLE public.post_reactions (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reaction text NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT post_reactions_user_reaction_key UNIQUE (post_id, user_id, reaction),
+  CONSTRAINT post_reactions_reaction_check CHECK (reaction IN ('like', 'clap', 'love', 'insightful'))
+);
+
+CREATE INDEX idx_post_reactions_user ON public.post_reactions USING btree (user_id);
+
+ALTER TABLE public.post_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Who reacted stays private; everyone else sees totals through post_reaction_counts
+CREATE POLICY "Users can view own reactions"
+ON public.post_reactions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can react to visible posts"
+ON public.post_reactions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.is_published = true AND p.is_hidden = false
+  )
+);
+
+CREATE POLICY "Users can remove own reactions"
+ON public.post_reactions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Totals per reaction for a batch of posts, so feeds don't load individual rows
+CREATE FUNCTION public.post_reaction_counts(_post_ids uuid[]) RETURNS TABLE(post_id uuid, reaction text, count integer)
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT r.post_id, r.reaction, count(*)::integer
+  FROM public.post_reactions r
+  JOIN public.posts p ON p.id = r.post_id
+  WHERE r.post_id = ANY(_post_ids)
+    AND ((p.is_published = true AND p.is_hidden = false) OR p.author_id = auth.uid())
+  GROUP BY r.post_id, r.reaction;
+$$;
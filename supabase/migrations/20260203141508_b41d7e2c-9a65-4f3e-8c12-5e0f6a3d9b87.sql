@@ -0,0 +1,91 @@
+-- Full-text search over posts: titles weigh most, then excerpts and categories, then the body
+ALTER TABLE public.posts
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, coalesce(excerpt, '')), 'B')
+    || setweight(to_tsvector('english'::regconfig, coalesce(category, '')), 'B')
+    || setweight(to_tsvector('english'::regconfig, coalesce(content_markdown, '')), 'C')
+  ) STORED;
+
+CREATE INDEX idx_posts_search_vector ON public.posts USING gin (search_vector);
+
+-- Ranked, filtered and paginated search over visible posts.
+-- A blank query lists every match for the filters, newest first. Highlights are
+-- wrapped in <mark> tags; the snippet has markdown syntax stripped so it reads as prose.
+CREATE FUNCTION public.search_posts(
+  _query text,
+  _tag text DEFAULT NULL,
+  _category text DEFAULT NULL,
+  _author_id uuid DEFAULT NULL,
+  _from timestamp with time zone DEFAULT NULL,
+  _to timestamp with time zone DEFAULT NULL,
+  _limit integer DEFAULT 10,
+  _offset integer DEFAULT 0
+) RETURNS TABLE(
+  id uuid,
+  slug text,
+  title text,
+  excerpt text,
+  category text,
+  tags text[],
+  published_at timestamp with time zone,
+  author_id uuid,
+  author_name text,
+  author_avatar_url text,
+  rank real,
+  title_highlight text,
+  snippet text,
+  total_count bigint
+)
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN btrim(coalesce(_query, '')) = '' THEN NULL
+      ELSE websearch_to_tsquery('english'::regconfig, _query)
+    END AS query
+  ),
+  page AS (
+    SELECT p.*, coalesce(ts_rank_cd(p.search_vector, q.query), 0)::real AS rank, count(*) OVER () AS total_count
+    FROM public.posts p, q
+    WHERE p.is_published = true
+      AND p.is_hidden = false
+      AND (q.query IS NULL OR p.search_vector @@ q.query)
+      AND (_tag IS NULL OR _tag = ANY(p.tags))
+      AND (_category IS NULL OR p.category = _category)
+      AND (_author_id IS NULL OR p.author_id = _author_id)
+      AND (_from IS NULL OR p.published_at >= _from)
+      AND (_to IS NULL OR p.published_at < _to)
+    ORDER BY rank DESC, p.published_at DESC
+    LIMIT LEAST(greatest(_limit, 1), 50)
+    OFFSET greatest(_offset, 0)
+  )
+  SELECT
+    page.id,
+    page.slug,
+    page.title,
+    page.excerpt,
+    page.category,
+    page.tags,
+    page.published_at,
+    page.author_id,
+    pr.display_name,
+    pr.avatar_url,
+    page.rank,
+    ts_headline('english'::regconfig, page.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    ts_headline(
+      'english'::regconfig,
+      regexp_replace(
+        regexp_replace(page.content_markdown, '!?\[([^\]]*)\]\([^)]*\)', '\1', 'g'),
+        '[#*_`>~|]+', '', 'g'
+      ),
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    page.total_count
+  FROM page
+  CROSS JOIN q
+  LEFT JOIN public.profiles pr ON pr.id = page.author_id
+  ORDER BY page.rank DESC, page.published_at DESC;
+$$;
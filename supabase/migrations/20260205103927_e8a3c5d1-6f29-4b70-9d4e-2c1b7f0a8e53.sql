@@ -0,0 +1,34 @@
+-- Reading time is stored with the post so feeds don't need the whole body to show it.
+-- Mirrors getReadingTimeMinutes: 220 words a minute, never less than one.
+ALTER TABLE public.posts
+  ADD COLUMN reading_time_minutes integer GENERATED ALWAYS AS (
+    greatest(1, round(coalesce(array_length(regexp_split_to_array(btrim(content_markdown), '\s+'), 1), 0) / 220.0))::integer
+  ) STORED;
+
+-- Keyset pagination for the home feed walks visible posts by (published_at, id)
+CREATE INDEX idx_posts_feed ON public.posts USING btree (published_at DESC, id DESC)
+WHERE is_published = true AND is_hidden = false;
+
+-- Tag and category counts across visible posts, optionally limited to some authors
+CREATE FUNCTION public.post_facets(_author_ids uuid[] DEFAULT NULL) RETURNS TABLE(kind text, value text, post_count integer)
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  WITH visible AS (
+    SELECT p.category, p.tags
+    FROM public.posts p
+    WHERE p.is_published = true
+      AND p.is_hidden = false
+      AND (_author_ids IS NULL OR p.author_id = ANY(_author_ids))
+  )
+  SELECT 'category', v.category, count(*)::integer
+  FROM visible v
+  WHERE v.category IS NOT NULL
+  GROUP BY v.category
+  UNION ALL
+  SELECT 'tag', t.tag, count(*)::integer
+  FROM visible v
+  CROSS JOIN LATERAL unnest(v.tags) AS t(tag)
+  GROUP BY t.tag
+  ORDER BY 1, 3 DESC, 2;
+$$;
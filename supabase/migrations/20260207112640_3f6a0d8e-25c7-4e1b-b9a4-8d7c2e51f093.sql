@@ -0,0 +1,34 @@
+-- Optional blurbs for tag and category pages, curated by moderators
+CREATE TABLE public.topics (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  kind text NOT NULL CHECK (kind IN ('tag', 'category')),
+  name text NOT NULL,
+  description text CHECK (description IS NULL OR char_length(description) <= 500),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT topics_kind_name_key UNIQUE (kind, name)
+);
+
+CREATE TRIGGER update_topics_updated_at BEFORE UPDATE ON public.topics FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.topics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view topics"
+ON public.topics
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Moderators can create topics"
+ON public.topics
+FOR INSERT
+WITH CHECK (public.can_moderate(auth.uid()));
+
+CREATE POLICY "Moderators can update topics"
+ON public.topics
+FOR UPDATE
+USING (public.can_moderate(auth.uid()));
+
+CREATE POLICY "Moderators can delete topics"
+ON public.topics
+FOR DELETE
+USING (public.can_moderate(auth.uid()));
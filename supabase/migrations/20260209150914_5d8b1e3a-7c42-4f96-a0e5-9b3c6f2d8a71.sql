@@ -0,0 +1,6 @@
+-- Optional overrides for how a post appears in search results and link previews.
+-- Anything left empty falls back to the title, excerpt and site-wide image.
+ALTER TABLE public.posts
+  ADD COLUMN meta_title text CHECK (meta_title IS NULL OR char_length(meta_title) <= 70),
+  ADD COLUMN meta_description text CHECK (meta_description IS NULL OR char_length(meta_description) <= 160),
+  ADD COLUMN og_image_url text CHECK (og_image_url IS NULL OR og_image_url ~* '^https?://');
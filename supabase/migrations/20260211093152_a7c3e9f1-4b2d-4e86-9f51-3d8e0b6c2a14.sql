@@ -0,0 +1,24 @@
+-- Banned authors keep read access to their posts but can no longer edit or publish them
+DROP POLICY "Authors can update own posts" ON public.posts;
+
+CREATE POLICY "Authors can update own posts"
+ON public.posts
+FOR UPDATE
+USING (auth.uid() = author_id)
+WITH CHECK (auth.uid() = author_id AND NOT public.is_banned(auth.uid()));
+
+-- Hiding is a moderation decision: only moderate() may flip is_hidden.
+-- It runs as SECURITY DEFINER, so a change made with the API roles came from somewhere else.
+CREATE FUNCTION public.guard_post_visibility() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF NEW.is_hidden IS DISTINCT FROM OLD.is_hidden AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Only moderators can hide or restore a post' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_posts_visibility BEFORE UPDATE OF is_hidden ON public.posts FOR EACH ROW EXECUTE FUNCTION public.guard_post_visibility();
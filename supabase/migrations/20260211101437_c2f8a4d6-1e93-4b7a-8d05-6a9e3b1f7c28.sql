@@ -0,0 +1,4 @@
+-- Set when a finished crawl had more result pages than firecrawl-crawl-status follows,
+-- so the review screen can say that not every crawled page was brought in
+ALTER TABLE public.crawl_jobs
+  ADD COLUMN results_truncated boolean DEFAULT false NOT NULL;
@@ -0,0 +1,17 @@
+-- A comment stays where it was posted: editing may change its body, never which post,
+-- thread or author it belongs to, since only INSERT checks those
+CREATE FUNCTION public.lock_comment_placement() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF NEW.post_id IS DISTINCT FROM OLD.post_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.author_id IS DISTINCT FROM OLD.author_id THEN
+    RAISE EXCEPTION 'A comment cannot be moved to another post, thread or author' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_comments_placement BEFORE UPDATE OF post_id, parent_id, author_id ON public.comments FOR EACH ROW EXECUTE FUNCTION public.lock_comment_placement();
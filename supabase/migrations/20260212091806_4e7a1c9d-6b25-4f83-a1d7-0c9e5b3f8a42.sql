@@ -0,0 +1,8 @@
+-- Banned users keep their visible comments but can no longer rewrite them
+DROP POLICY "Users can update own comments" ON public.comments;
+
+CREATE POLICY "Users can update own comments"
+ON public.comments
+FOR UPDATE
+USING (auth.uid() = author_id AND is_hidden = false AND NOT public.is_banned(auth.uid()))
+WITH CHECK (auth.uid() = author_id AND is_hidden = false AND NOT public.is_banned(auth.uid()));
@@ -0,0 +1,12 @@
+-- Publish due posts from the database itself. The job used to POST to one project's
+-- publish-scheduled-posts function, so every other environment published production's posts.
+-- Scheduling under the same name replaces that job.
+SELECT cron.schedule(
+  'publish-scheduled-posts',
+  '* * * * *',
+  $$
+  UPDATE public.posts
+  SET is_published = true, published_at = now(), scheduled_for = NULL
+  WHERE is_published = false AND scheduled_for <= now();
+  $$
+);